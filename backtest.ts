@@ -0,0 +1,139 @@
+// backtest.ts - Replay recorded odds snapshots with overridable thresholds
+//
+// deno task backtest [--file snapshots.json ...] [--kv path] [--sport key] [--event id]
+//                    [--from ISO] [--to ISO] [--min-margin 0.02] [--min-liquidity 20]
+//                    [--stake-min 280] [--stake-max 420] [--commission 0.05]
+//                    [--export out.json] [--json]
+import { DEFAULT_BACKTEST_OPTIONS, runBacktest } from "./src/backtest.ts";
+import type { BacktestBreakdown, BacktestOptions } from "./src/backtest.ts";
+import { dateFlag, numberFlag, openKvFromFlags, parseArgs } from "./src/cliArgs.ts";
+import type { CliFlags } from "./src/cliArgs.ts";
+import { SnapshotRecorder } from "./src/snapshotRecorder.ts";
+import type { OddsSnapshot, SnapshotQuery } from "./src/snapshotRecorder.ts";
+import { isValidGreyManRange } from "./src/utils.ts";
+
+function matchesQuery(snapshot: OddsSnapshot, query: SnapshotQuery): boolean {
+  return (!query.sportKey || snapshot.sportKey === query.sportKey) &&
+    (!query.eventId || snapshot.eventId === query.eventId) &&
+    (!query.from || snapshot.recordedAt >= query.from.getTime()) &&
+    (!query.to || snapshot.recordedAt < query.to.getTime());
+}
+
+/**
+ * Load snapshots from JSON files (arrays of snapshots, e.g. from --export) or from Deno KV
+ */
+async function loadSnapshots(flags: CliFlags, query: SnapshotQuery): Promise<OddsSnapshot[]> {
+  const files = flags.get("file") ?? [];
+  if (files.length > 0) {
+    const snapshots: OddsSnapshot[] = [];
+    for (const file of files) {
+      const data = JSON.parse(await Deno.readTextFile(file)) as OddsSnapshot[];
+      snapshots.push(...data.filter((snapshot) => matchesQuery(snapshot, query)));
+    }
+    return snapshots;
+  }
+
+  const kv = await openKvFromFlags(flags);
+  try {
+    // Retention isn't used for reading
+    return await new SnapshotRecorder(kv, 1).list(query);
+  } finally {
+    kv.close();
+  }
+}
+
+function formatBreakdown(rows: Record<string, BacktestBreakdown>) {
+  return Object.fromEntries(
+    Object.entries(rows)
+      .sort(([, a], [, b]) => b.profit - a.profit)
+      .map(([name, row]) => [name, {
+        arbs: row.arbs,
+        stake: `$${row.stake.toFixed(0)}`,
+        profit: `$${row.profit.toFixed(2)}`,
+        avgNet: `${(row.avgNetMargin * 100).toFixed(2)}%`,
+      }]),
+  );
+}
+
+async function main() {
+  const flags = parseArgs(Deno.args);
+  const query: SnapshotQuery = {
+    sportKey: flags.get("sport")?.at(-1),
+    eventId: flags.get("event")?.at(-1),
+    from: dateFlag(flags, "from"),
+    to: dateFlag(flags, "to"),
+  };
+
+  const minMargin = numberFlag(flags, "min-margin", DEFAULT_BACKTEST_OPTIONS.minProfitMargin);
+  const commission = flags.has("commission") ? numberFlag(flags, "commission", 0) : null;
+  const options: BacktestOptions = {
+    thresholds: {
+      minNetMargin: minMargin,
+      minLayLiquidity: numberFlag(flags, "min-liquidity", DEFAULT_BACKTEST_OPTIONS.thresholds.minLayLiquidity),
+    },
+    minProfitMargin: minMargin,
+    greyManMinStake: numberFlag(flags, "stake-min", DEFAULT_BACKTEST_OPTIONS.greyManMinStake),
+    greyManMaxStake: numberFlag(flags, "stake-max", DEFAULT_BACKTEST_OPTIONS.greyManMaxStake),
+    commissionRate: commission,
+  };
+  if (!isValidGreyManRange(options.greyManMinStake, options.greyManMaxStake)) {
+    throw new Error("--stake-min must be below --stake-max, with an amount in between not divisible by 50");
+  }
+
+  const snapshots = await loadSnapshots(flags, query);
+  const exportPath = flags.get("export")?.at(-1);
+  if (exportPath) {
+    await Deno.writeTextFile(exportPath, JSON.stringify(snapshots));
+    console.log(`💾 Exported ${snapshots.length} snapshots to ${exportPath}`);
+  }
+
+  if (snapshots.length === 0) {
+    console.log("No snapshots found - record some with RECORD_SNAPSHOTS=true");
+    return;
+  }
+
+  const report = await runBacktest(snapshots, options);
+
+  if (flags.has("json")) {
+    console.log(JSON.stringify({ options, ...report }, null, 2));
+    return;
+  }
+
+  console.log("📼 BACKTEST");
+  console.log("==================================================");
+  console.log(
+    `Thresholds: ${(minMargin * 100).toFixed(2)}% net, >$${options.thresholds.minLayLiquidity} lay liquidity, ` +
+      `stake $${options.greyManMinStake}-$${options.greyManMaxStake}, ` +
+      `commission ${commission === null ? "market base rate" : `${(commission * 100).toFixed(1)}%`}`,
+  );
+  console.log(
+    `Replayed ${report.snapshots} snapshots (${report.scans} scans, ${report.events} events, ` +
+      `${report.marketsPriced} Betfair markets)`,
+  );
+
+  console.log("\n🔍 PIPELINE");
+  console.table({
+    detected: report.detected,
+    accepted: report.accepted,
+    dedupeSuppressed: report.dedupeSuppressed,
+    ...report.rejected,
+  });
+
+  console.log("\n📊 NET MARGIN DISTRIBUTION (accepted arbs)");
+  console.table(Object.fromEntries(report.marginDistribution.map(({ bucket, arbs }) => [bucket, arbs])));
+
+  console.log("\n🏆 BY SPORT");
+  console.table(formatBreakdown(report.bySport));
+
+  console.log("\n🏦 BY BOOKIE");
+  console.table(formatBreakdown(report.byBookie));
+
+  console.log(`\n💰 Theoretical profit: $${report.totalProfit.toFixed(2)} on $${report.totalStake.toFixed(0)} staked`);
+}
+
+try {
+  await main();
+} catch (e) {
+  console.error("❌ Backtest failed:", e instanceof Error ? e.message : e);
+  Deno.exit(1);
+}
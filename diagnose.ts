@@ -1,6 +1,9 @@
 // diagnose.ts
 import { loadConfig } from "./src/config.ts";
 import { BetfairAuth } from "./src/betfairAuth.ts";
+import { calculatePosition, DEFAULT_COMMISSION_RATE, priceArb } from "./src/pricing.ts";
+import { BetfairStreamClient } from "./src/betfairStream.ts";
+import { FakeStreamServer } from "./src/fakeStreamServer.ts";
 
 console.log("🏥 STARTING ARB-SEEKER DIAGNOSTIC ROUTINE 🏥");
 console.log("==================================================");
@@ -11,7 +14,8 @@ async function runTests() {
     telegram: "PENDING",
     oddsApi: "PENDING",
     betfair: "PENDING",
-    math: "PENDING"
+    math: "PENDING",
+    stream: "PENDING"
   };
 
   // --- TEST 1: ENVIRONMENT VARIABLES ---
@@ -114,25 +118,36 @@ async function runTests() {
   // --- TEST 5: MATH ENGINE (UNIT TEST) ---
   console.log("\n🔍 TEST 5: ARB CALCULATION LOGIC");
   try {
-    // Test with odds that should give ~4.3% margin
-    const bookieOdds = 2.10;
-    const layOdds = 2.05;
-    const impliedProb = (1 / bookieOdds) + (1 / layOdds);
-    const margin = (1 / impliedProb) - 1;
+    // Same pricing module the detector and engine use
+    const bookieOdds = 2.50;
+    const layOdds = 2.30;
+    const commissionRate = DEFAULT_COMMISSION_RATE;
+    const { grossMargin, netMargin } = priceArb(bookieOdds, layOdds, commissionRate);
     
-    console.log(`ℹ️ Scenario: Back @ ${bookieOdds} / Lay @ ${layOdds}`);
-    console.log(`ℹ️ Calculated Margin: ${(margin * 100).toFixed(2)}%`);
+    console.log(`ℹ️ Scenario: Back @ ${bookieOdds} / Lay @ ${layOdds} (${(commissionRate * 100).toFixed(1)}% commission)`);
+    console.log(`ℹ️ Calculated Margin: ${(grossMargin * 100).toFixed(2)}% gross / ${(netMargin * 100).toFixed(2)}% net`);
     
-    // Verify margin is positive (no arb opportunity) and reasonable
-    if (margin < 0 || margin > 0.1) {
-       throw new Error(`Math Error: Margin out of expected range (0-10%), got ${(margin * 100).toFixed(2)}%`);
+    // Verify gross margin: (2.50 - 2.30) / 2.30 = ~8.7%
+    if (Math.abs(grossMargin - 0.087) > 0.001) {
+       throw new Error(`Math Error: Expected ~8.70% gross margin, got ${(grossMargin * 100).toFixed(2)}%`);
     }
     
-    // Verify calculation is correct: margin should be ~3.7% for these odds
-    const expectedMargin = 0.037;
-    const marginDiff = Math.abs(margin - expectedMargin);
-    if (marginDiff > 0.01) {
-       throw new Error(`Math Error: Expected ~3.7% margin, got ${(margin * 100).toFixed(2)}%`);
+    // Verify net margin: (2.50 * 0.95) / (2.30 - 0.05) - 1 = ~5.56%
+    if (Math.abs(netMargin - 0.0556) > 0.001) {
+       throw new Error(`Math Error: Expected ~5.56% net margin, got ${(netMargin * 100).toFixed(2)}%`);
+    }
+    
+    // Verify the equalised lay stake locks in the same profit either way
+    const position = calculatePosition(315, bookieOdds, layOdds, commissionRate);
+    console.log(`ℹ️ Back $315 -> Lay $${position.layStake.toFixed(2)} (P&L ${position.profitIfBackWins} / ${position.profitIfBackLoses})`);
+    if (Math.abs(position.profitIfBackWins - position.profitIfBackLoses) > 0.02) {
+       throw new Error(`Math Error: Outcome P&L not equalised (${position.profitIfBackWins} vs ${position.profitIfBackLoses})`);
+    }
+    
+    // Verify commission can turn a gross arb into a loss (2.10 / 2.05)
+    const thin = priceArb(2.10, 2.05, commissionRate);
+    if (thin.grossMargin <= 0 || thin.netMargin >= 0) {
+       throw new Error(`Math Error: Expected 2.10/2.05 to lose after commission, got ${(thin.netMargin * 100).toFixed(2)}% net`);
     }
     console.log("✅ Math Engine Verified");
     results.math = "PASS";
@@ -141,6 +156,69 @@ async function runTests() {
     results.math = "FAIL";
   }
 
+  // --- TEST 6: STREAM CACHE (LOCAL FAKE SERVER) ---
+  console.log("\n🔍 TEST 6: BETFAIR STREAM CACHE");
+  const server = new FakeStreamServer({ sessionToken: "fake-session", heartbeatMs: 200 });
+  const kv = await Deno.openKv(":memory:");
+  let client: BetfairStreamClient | null = null;
+  try {
+    const marketId = "1.234567890";
+    const port = server.start();
+    server.setMarket({
+      id: marketId,
+      marketDefinition: { status: "OPEN", inPlay: false, marketBaseRate: 5, runners: [{ id: 12345, status: "ACTIVE" }] },
+      rc: [{ id: 12345, batl: [[0, 2.30, 1100], [1, 2.32, 600]] }],
+    });
+
+    // Cached session - no Betfair login needed
+    await kv.set(["betfair_session"], "fake-session");
+    const auth = new BetfairAuth(kv, "fake-app-key", "", "");
+    client = new BetfairStreamClient(auth, "fake-app-key", {
+      url: `tcp://127.0.0.1:${port}`,
+      ladderDepth: 3,
+      heartbeatMs: 200,
+    });
+    const entry = {
+      marketId,
+      marketName: "Match Odds",
+      marketStartTime: new Date().toISOString(),
+      runners: [{ selectionId: 12345, runnerName: "Lakers" }],
+    };
+    const bestLay = () =>
+      client?.getMarketPrices([entry]).get(marketId)?.runners[0]?.ex?.availableToLay[0]?.price;
+    const waitFor = async (price: number) => {
+      for (let i = 0; i < 50 && bestLay() !== price; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
+      if (bestLay() !== price) {
+        throw new Error(`Expected best lay ${price}, cache has ${bestLay()}`);
+      }
+    };
+
+    await client.subscribe([marketId]);
+    client.start();
+    await waitFor(2.30);
+    console.log("ℹ️ Subscription image cached (best lay 2.30)");
+
+    server.publish({ id: marketId, rc: [{ id: 12345, batl: [[0, 2.26, 500]] }] });
+    await waitFor(2.26);
+    console.log("ℹ️ Delta applied (best lay 2.26)");
+
+    // Drop the socket and move the price while disconnected - resume must replay it
+    server.dropConnections();
+    server.publish({ id: marketId, rc: [{ id: 12345, batl: [[0, 2.24, 450]] }] });
+    await waitFor(2.24);
+    console.log("✅ Reconnected and resumed from clk (best lay 2.24)");
+    results.stream = "PASS";
+  } catch (e) {
+    console.error("❌ Stream Cache Failed:", e instanceof Error ? e.message : e);
+    results.stream = "FAIL";
+  } finally {
+    client?.stop();
+    server.close();
+    kv.close();
+  }
+
   // --- SUMMARY ---
   console.log("\n==================================================");
   console.log("📊 DIAGNOSTIC SUMMARY");
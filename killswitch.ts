@@ -0,0 +1,32 @@
+// killswitch.ts - Stop, resume or inspect auto-lay
+//
+// deno task killswitch status
+// deno task killswitch on [reason]
+// deno task killswitch off
+import { clearKillSwitch, getDailyLiability, getKillSwitch, setKillSwitch } from "./src/autoLay.ts";
+
+const [command = "status", ...reasonWords] = Deno.args;
+const kv = await Deno.openKv(Deno.env.get("DENO_KV_PATH") || undefined);
+
+try {
+  if (command === "on") {
+    await setKillSwitch(kv, reasonWords.join(" ") || "set manually");
+    console.log("⛔ Kill switch ON - auto-lay will not place bets");
+  } else if (command === "off") {
+    await clearKillSwitch(kv);
+    console.log("✅ Kill switch OFF - auto-lay resumes on the next arb");
+  } else if (command !== "status") {
+    console.error(`Unknown command "${command}" - use status, on [reason] or off`);
+    Deno.exit(1);
+  }
+
+  const killSwitch = await getKillSwitch(kv);
+  console.log(
+    killSwitch
+      ? `Kill switch: ON since ${killSwitch.setAt} (${killSwitch.reason})`
+      : "Kill switch: off",
+  );
+  console.log(`Auto-laid liability today: $${(await getDailyLiability(kv)).toFixed(2)}`);
+} finally {
+  kv.close();
+}
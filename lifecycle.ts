@@ -0,0 +1,97 @@
+// lifecycle.ts - How long arbs survive: duration stats per bookie, sport, market and close reason
+//
+// deno task lifecycle [--from YYYY-MM-DD] [--to YYYY-MM-DD] [--days 7]
+//                     [--by bookie|sport|market|reason ...] [--open] [--kv path] [--json]
+import { ArbLifecycleStore, CLOSE_REASON_LABELS, lifecycleMinutes, summariseDurations } from "./src/arbLifecycle.ts";
+import type { ArbLifecycle, DurationStats, LifecycleGrouping } from "./src/arbLifecycle.ts";
+import { numberFlag, openKvFromFlags, parseArgs } from "./src/cliArgs.ts";
+import { getSydneyDateKey } from "./src/config.ts";
+
+const GROUPINGS: LifecycleGrouping[] = ["bookie", "sport", "market", "reason"];
+
+function formatRows(rows: Record<string, DurationStats>) {
+  return Object.fromEntries(
+    Object.entries(rows)
+      .sort(([, a], [, b]) => b.arbs - a.arbs)
+      .map(([name, row]) => [name, {
+        arbs: row.arbs,
+        median: `${row.medianMinutes}m`,
+        mean: `${row.meanMinutes}m`,
+        p90: `${row.p90Minutes}m`,
+        longest: `${row.longestMinutes}m`,
+        "5m+": `${(row.workable * 100).toFixed(0)}%`,
+        peakMargin: `${(row.avgPeakMargin * 100).toFixed(2)}%`,
+      }]),
+  );
+}
+
+function formatOpen(records: ArbLifecycle[]) {
+  return Object.fromEntries(
+    records.map((record) => [record.arbId, {
+      arb: `${record.selection} @ ${record.bookie}`,
+      firstSeen: new Date(record.firstSeen).toLocaleTimeString("en-AU", { timeZone: "Australia/Sydney" }),
+      live: `${lifecycleMinutes(record).toFixed(1)}m`,
+      scans: record.scans,
+      peakMargin: `${(record.peakNetMargin * 100).toFixed(2)}%`,
+    }]),
+  );
+}
+
+async function main() {
+  const flags = parseArgs(Deno.args);
+  const days = flags.has("days") ? numberFlag(flags, "days", 7) : null;
+  const from = flags.get("from")?.at(-1) ??
+    (days !== null ? getSydneyDateKey(new Date(Date.now() - (days - 1) * 86400000)) : undefined);
+  const to = flags.get("to")?.at(-1);
+  for (const [name, value] of [["from", from], ["to", to]]) {
+    if (value !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      throw new Error(`--${name} must be a Sydney date like 2026-10-19 (got "${value}")`);
+    }
+  }
+  const groupings = (flags.get("by") ?? GROUPINGS) as LifecycleGrouping[];
+  const unknown = groupings.filter((by) => !GROUPINGS.includes(by));
+  if (unknown.length > 0) {
+    throw new Error(`--by must be bookie, sport, market or reason (got "${unknown.join(", ")}")`);
+  }
+
+  const kv = await openKvFromFlags(flags);
+  try {
+    const store = new ArbLifecycleStore(kv);
+    const closed = await store.listClosed({ from, to });
+    const open = await store.listOpen();
+    const report = Object.fromEntries(groupings.map((by) => [by, summariseDurations(closed, by)]));
+
+    if (flags.has("json")) {
+      console.log(JSON.stringify({ from, to, ...report, closed, open }, null, 2));
+      return;
+    }
+
+    if (closed.length === 0) {
+      console.log("No closed arbs recorded for that range");
+    } else {
+      console.log(`⏳ Arb lifetimes ${from ?? "start"} to ${to ?? "today"} (${closed.length} closed)`);
+      for (const by of groupings) {
+        console.log(`\nBY ${by.toUpperCase()}`);
+        console.table(formatRows(report[by]));
+      }
+
+      const reasons = Object.entries(CLOSE_REASON_LABELS)
+        .map(([reason, label]) => `${closed.filter((r) => r.closeReason === reason).length} ${label}`);
+      console.log(`\n🔚 Closed: ${reasons.join(", ")}`);
+    }
+
+    if (flags.has("open") && open.length > 0) {
+      console.log("\nSTILL OPEN");
+      console.table(formatOpen(open));
+    }
+  } finally {
+    kv.close();
+  }
+}
+
+try {
+  await main();
+} catch (e) {
+  console.error("❌ Lifecycle report failed:", e instanceof Error ? e.message : e);
+  Deno.exit(1);
+}
@@ -0,0 +1,110 @@
+// pnl.ts - Bet ledger P&L: realised vs expected per day, sport and bookie
+//
+// deno task pnl [--from YYYY-MM-DD] [--to YYYY-MM-DD] [--days 7] [--by day|sport|bookie ...]
+//               [--settle] [--open] [--kv path] [--json]
+import { BetLedger, summarisePnl } from "./src/ledger.ts";
+import type { LedgerEntry, PnlGrouping, PnlRow } from "./src/ledger.ts";
+import { numberFlag, openKvFromFlags, parseArgs } from "./src/cliArgs.ts";
+import { getSydneyDateKey, loadConfig } from "./src/config.ts";
+import { BetfairAuth } from "./src/betfairAuth.ts";
+import { BetfairService } from "./src/betfairService.ts";
+
+const GROUPINGS: PnlGrouping[] = ["day", "sport", "bookie"];
+
+function formatRows(rows: Record<string, PnlRow>) {
+  return Object.fromEntries(
+    Object.entries(rows).map(([name, row]) => [name, {
+      bets: row.bets,
+      settled: row.settled,
+      staked: `$${row.staked.toFixed(0)}`,
+      expected: `$${row.expected.toFixed(2)}`,
+      realised: `$${row.realised.toFixed(2)}`,
+      vsExpected: `$${(row.realised - row.expectedSettled).toFixed(2)}`,
+    }]),
+  );
+}
+
+function formatOpen(entries: LedgerEntry[]) {
+  return Object.fromEntries(
+    entries.map((entry) => [entry.ref, {
+      day: entry.day,
+      bet: `${entry.selection} @ ${entry.bookie}`,
+      back: entry.back ? `$${entry.back.stake} @ ${entry.back.odds} ${entry.back.result ?? "open"}` : "-",
+      lay: entry.lay ? `$${entry.lay.stake} @ ${entry.lay.odds} ${entry.lay.result ?? "open"}` : "-",
+      expected: `$${entry.expectedProfit.toFixed(2)}`,
+    }]),
+  );
+}
+
+async function main() {
+  const flags = parseArgs(Deno.args);
+  const days = flags.has("days") ? numberFlag(flags, "days", 7) : null;
+  const from = flags.get("from")?.at(-1) ??
+    (days !== null ? getSydneyDateKey(new Date(Date.now() - (days - 1) * 86400000)) : undefined);
+  const to = flags.get("to")?.at(-1);
+  for (const [name, value] of [["from", from], ["to", to]]) {
+    if (value !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      throw new Error(`--${name} must be a Sydney date like 2026-10-19 (got "${value}")`);
+    }
+  }
+  const groupings = (flags.get("by") ?? GROUPINGS) as PnlGrouping[];
+  const unknown = groupings.filter((by) => !GROUPINGS.includes(by));
+  if (unknown.length > 0) {
+    throw new Error(`--by must be day, sport or bookie (got "${unknown.join(", ")}")`);
+  }
+
+  const kv = await openKvFromFlags(flags);
+  try {
+    const ledger = new BetLedger(kv);
+
+    // Pull Betfair settlements first (needs the bot's Betfair credentials)
+    if (flags.has("settle")) {
+      const config = loadConfig();
+      const auth = new BetfairAuth(kv, config.betfairAppKey, config.betfairUsername, config.betfairPassword);
+      const settled = await ledger.settleBetfairLegs(new BetfairService(auth, config.betfairAppKey, kv));
+      console.log(`📒 Settled ${settled} Betfair legs`);
+    }
+
+    const entries = await ledger.list({ from, to });
+    const report = Object.fromEntries(groupings.map((by) => [by, summarisePnl(entries, by)]));
+
+    if (flags.has("json")) {
+      console.log(JSON.stringify({ from, to, ...report, entries }, null, 2));
+      return;
+    }
+
+    if (entries.length === 0) {
+      console.log("No bets in the ledger for that range");
+      return;
+    }
+
+    console.log(`📒 P&L ${from ?? "start"} to ${to ?? "today"} (${entries.length} bets)`);
+    for (const by of groupings) {
+      console.log(`\nBY ${by.toUpperCase()}`);
+      console.table(formatRows(report[by]));
+    }
+
+    const open = entries.filter((entry) => entry.realisedProfit === undefined);
+    if (flags.has("open") && open.length > 0) {
+      console.log("\nUNSETTLED");
+      console.table(formatOpen(open));
+    }
+
+    const total = summarisePnl(entries, "day");
+    const realised = Object.values(total).reduce((sum, row) => sum + row.realised, 0);
+    const expected = Object.values(total).reduce((sum, row) => sum + row.expectedSettled, 0);
+    console.log(
+      `\n💰 Realised $${realised.toFixed(2)} vs expected $${expected.toFixed(2)} on settled bets, ` +
+        `${open.length} unsettled`,
+    );
+  } finally {
+    kv.close();
+  }
+}
+
+try {
+  await main();
+} catch (e) {
+  console.error("❌ P&L report failed:", e instanceof Error ? e.message : e);
+  Deno.exit(1);
+}
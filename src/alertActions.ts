@@ -0,0 +1,266 @@
+// Alert Actions - Placed / Skipped / Price gone buttons on arb alerts, recorded per alert in KV
+
+import type { ArbOpportunity } from './types.ts';
+import type { TeamAliasStore } from './entityResolution.ts';
+import { ledgerArbFromArb } from './ledger.ts';
+import type { BetLedger, LedgerArb } from './ledger.ts';
+import { escapeHtml } from './telegramBot.ts';
+import type { InlineKeyboardButton, InlineKeyboardMarkup, TelegramBot } from './telegramBot.ts';
+
+const CALLBACK_PREFIX = 'alert';
+const REF_TTL_MS = 2 * 24 * 60 * 60 * 1000; // Buttons stop working after 2 days
+const RECORD_TTL_MS = 90 * 24 * 60 * 60 * 1000; // Conversion history
+
+export type AlertAction = 'PLACED' | 'SKIPPED' | 'PRICE_GONE';
+
+// callback_data codes - Telegram caps callback_data at 64 bytes, so arb ids go through a short ref
+const ACTION_CODES: Record<string, AlertAction> = { p: 'PLACED', s: 'SKIPPED', g: 'PRICE_GONE' };
+
+const ACTION_LABELS: Record<AlertAction, string> = {
+  PLACED: '✅ Placed',
+  SKIPPED: '⏭️ Skipped',
+  PRICE_GONE: '💨 Price gone',
+};
+
+/**
+ * One alert and what was done about it, under ['alert', ref]
+ * ref is the short id used in callback_data - the arb id repeats when the same selection is alerted again
+ */
+export interface AlertRecord extends LedgerArb {
+  netMargin: number;
+  sportKey: string;
+  betfairRunnerName: string;
+  matchConfidence: number; // Below 1 when the team was matched by alias or fuzzily
+  alertedAt: string; // ISO Date
+  action?: AlertAction;
+  actedAt?: string; // ISO Date
+  stake?: number; // Actual back stake (PLACED)
+  odds?: number; // Actual back odds (PLACED)
+}
+
+export interface AlertConversion {
+  alerts: number;
+  placed: number;
+  skipped: number;
+  priceGone: number;
+  noResponse: number;
+}
+
+/**
+ * Awaiting a "stake odds" reply after a Placed tap, under ['alert_prompt', promptMessageId]
+ */
+interface PlacedPrompt {
+  ref: string;
+  alertMessageId: number;
+  keyboard: InlineKeyboardMarkup;
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString('en-AU', { timeZone: 'Australia/Sydney', timeStyle: 'short' });
+}
+
+function statusLabel(record: AlertRecord): string {
+  const label = ACTION_LABELS[record.action as AlertAction];
+  const detail = record.action === 'PLACED' ? ` $${record.stake} @ ${record.odds}` : '';
+  return `${label}${detail} · ${formatTime(record.actedAt as string)}`;
+}
+
+/**
+ * Swap the action row for a single status button, keeping the link buttons
+ */
+export function withStatusRow(keyboard: InlineKeyboardMarkup, record: AlertRecord): InlineKeyboardMarkup {
+  const statusRow: InlineKeyboardButton[] = [
+    { text: statusLabel(record), callback_data: `${CALLBACK_PREFIX}:done:${record.ref}` },
+  ];
+  const rows = keyboard.inline_keyboard.filter((row) =>
+    !row.some((button) => button.callback_data?.startsWith(`${CALLBACK_PREFIX}:`))
+  );
+  return { inline_keyboard: [...rows, statusRow] };
+}
+
+/**
+ * Action buttons for an alert
+ */
+export function alertActionRow(ref: string): InlineKeyboardButton[] {
+  return Object.entries(ACTION_CODES).map(([code, action]) => ({
+    text: ACTION_LABELS[action],
+    callback_data: `${CALLBACK_PREFIX}:${code}:${ref}`,
+  }));
+}
+
+export class AlertActionStore {
+  private kv: Deno.Kv;
+
+  constructor(kv: Deno.Kv) {
+    this.kv = kv;
+  }
+
+  /**
+   * Record an arb about to be alerted - returns the ref for its buttons
+   */
+  async register(arb: ArbOpportunity): Promise<string> {
+    const ref = crypto.randomUUID().slice(0, 8);
+    const record: AlertRecord = {
+      ...ledgerArbFromArb(arb, ref),
+      netMargin: arb.netMargin,
+      sportKey: arb.sportKey,
+      betfairRunnerName: arb.betfairRunnerName,
+      matchConfidence: arb.matchConfidence,
+      alertedAt: new Date().toISOString(),
+    };
+
+    await this.kv.set(['alert', ref], record, { expireIn: RECORD_TTL_MS });
+    return ref;
+  }
+
+  async get(ref: string): Promise<AlertRecord | null> {
+    return (await this.kv.get<AlertRecord>(['alert', ref])).value;
+  }
+
+  /**
+   * The record behind a button tap - null once the buttons have expired
+   */
+  async resolveRef(ref: string): Promise<AlertRecord | null> {
+    const record = await this.get(ref);
+    return record && Date.now() - new Date(record.alertedAt).getTime() < REF_TTL_MS ? record : null;
+  }
+
+  async recordAction(
+    ref: string,
+    action: AlertAction,
+    placed: { stake: number; odds: number } | null = null,
+  ): Promise<AlertRecord | null> {
+    const record = await this.get(ref);
+    if (!record) return null;
+
+    const updated: AlertRecord = {
+      ...record,
+      action,
+      actedAt: new Date().toISOString(),
+      stake: placed?.stake,
+      odds: placed?.odds,
+    };
+    await this.kv.set(['alert', ref], updated, { expireIn: RECORD_TTL_MS });
+    return updated;
+  }
+
+  /**
+   * Conversion per bookie across the stored alert history
+   */
+  async conversionByBookie(): Promise<Record<string, AlertConversion>> {
+    const byBookie: Record<string, AlertConversion> = {};
+    for await (const entry of this.kv.list<AlertRecord>({ prefix: ['alert'] })) {
+      const record = entry.value;
+      const row = byBookie[record.bookie] ??= { alerts: 0, placed: 0, skipped: 0, priceGone: 0, noResponse: 0 };
+      row.alerts++;
+      if (record.action === 'PLACED') row.placed++;
+      else if (record.action === 'SKIPPED') row.skipped++;
+      else if (record.action === 'PRICE_GONE') row.priceGone++;
+      else row.noResponse++;
+    }
+    return byBookie;
+  }
+
+  async savePrompt(promptMessageId: number, prompt: PlacedPrompt): Promise<void> {
+    await this.kv.set(['alert_prompt', promptMessageId], prompt, { expireIn: REF_TTL_MS });
+  }
+
+  async takePrompt(promptMessageId: number): Promise<PlacedPrompt | null> {
+    const prompt = (await this.kv.get<PlacedPrompt>(['alert_prompt', promptMessageId])).value;
+    if (prompt) await this.kv.delete(['alert_prompt', promptMessageId]);
+    return prompt;
+  }
+}
+
+/**
+ * Handle alert button taps and "stake odds" replies through the bot's update loop
+ * Placed records the suggested stake and odds (in the alert record and the bet ledger),
+ * then asks for the actual ones. Placing a bet on a non-exact team match confirms it as a learned alias.
+ */
+export function registerAlertActions(
+  bot: TelegramBot,
+  store: AlertActionStore,
+  ledger: BetLedger,
+  teamAliases: TeamAliasStore,
+): void {
+  bot.onCallback(CALLBACK_PREFIX, async ([code, ref], query) => {
+    const record = await store.resolveRef(ref);
+    if (!record || !query.message) {
+      return 'Alert expired';
+    }
+    if (code === 'done') {
+      return `Already recorded: ${statusLabel(record)}`;
+    }
+
+    const action = ACTION_CODES[code];
+    if (!action) return 'Unknown action';
+
+    const updated = await store.recordAction(
+      record.ref,
+      action,
+      action === 'PLACED' ? { stake: record.suggestedStake, odds: record.bookieOdds } : null,
+    );
+    if (!updated) return 'Alert expired';
+    if (action === 'PLACED') {
+      await ledger.recordBack(updated, record.suggestedStake, record.bookieOdds);
+      if (record.market === 'h2h' && record.matchConfidence < 1) {
+        await teamAliases.confirm(record.sportKey, record.selection, record.betfairRunnerName);
+        console.log(`🔗 Learned alias ${record.selection} -> ${record.betfairRunnerName} (${record.sportKey})`);
+      }
+    }
+
+    const keyboard = withStatusRow(query.message.reply_markup ?? { inline_keyboard: [] }, updated);
+    await bot.editMessageReplyMarkup(query.message.message_id, keyboard);
+    console.log(`📝 ${updated.arbId} marked ${action}`);
+
+    if (action === 'PLACED') {
+      const prompt = await bot.sendMessage(
+        `Placed at ${escapeHtml(record.bookie)} - reply with the actual stake and odds if they differ ` +
+          `from $${record.suggestedStake} @ ${record.bookieOdds}, e.g. <code>${record.suggestedStake} ${record.bookieOdds}</code>`,
+        {
+          reply_to_message_id: query.message.message_id,
+          reply_markup: { force_reply: true, input_field_placeholder: 'stake odds' },
+        },
+      );
+      await store.savePrompt(prompt.message_id, {
+        ref: record.ref,
+        alertMessageId: query.message.message_id,
+        keyboard,
+      });
+    }
+    return ACTION_LABELS[action];
+  });
+
+  bot.onReply(async (message, repliedTo) => {
+    const prompt = await store.takePrompt(repliedTo.message_id);
+    if (!prompt) return null;
+
+    const [stake, odds] = (message.text ?? '').replace(/\$/g, '').trim().split(/\s+/).map(parseFloat);
+    if (!(stake > 0 && odds > 1)) {
+      // Keep the prompt so the user can try again
+      await store.savePrompt(repliedTo.message_id, prompt);
+      return 'Reply with stake and odds, e.g. <code>315 2.45</code>';
+    }
+
+    const record = await store.get(prompt.ref);
+    if (!record) return 'Alert expired';
+    if (!await ledger.recordBack(record, stake, odds)) {
+      return `Bookie leg for <code>${record.ref}</code> is already settled - not changed`;
+    }
+    const updated = await store.recordAction(prompt.ref, 'PLACED', { stake, odds });
+    if (!updated) return 'Alert expired';
+
+    await bot.editMessageReplyMarkup(prompt.alertMessageId, withStatusRow(prompt.keyboard, updated));
+    return `✅ Recorded $${stake} @ ${odds} at ${escapeHtml(updated.bookie)}`;
+  });
+
+  bot.onCommand('conversion', 'Alerts acted on, per bookie', async () => {
+    const rows = Object.entries(await store.conversionByBookie())
+      .sort(([, a], [, b]) => b.alerts - a.alerts)
+      .map(([bookie, row]) =>
+        `${escapeHtml(bookie)}: ${row.placed}/${row.alerts} placed, ${row.priceGone} price gone, ` +
+        `${row.skipped} skipped, ${row.noResponse} no response`
+      );
+    return rows.length > 0 ? `<b>Alert conversion</b>\n${rows.join('\n')}` : 'No alerts recorded yet';
+  });
+}
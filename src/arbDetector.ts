@@ -1,155 +1,96 @@
 // Arbitrage Detection Logic
 
 import type { ArbOpportunity } from './types.ts';
-import { calculateProfitMargin, generateArbId } from './utils.ts';
-import type { BetfairRunner } from './types.ts';
-
-export interface BookieOdds {
-  eventId: string;
-  event: string;
-  sport: string;
-  startTime: string;
-  bookie: string;
-  bookieKey: string;
-  bookieUrl: string;
-  outcome: string;
-  odds: number;
-}
+import { ladderSize, priceArb, profitableLadder } from './pricing.ts';
+import { matchRunner, MIN_MATCH_CONFIDENCE, normalizeTeamName } from './entityResolution.ts';
+import type { RunnerMatch } from './entityResolution.ts';
+import { formatSelection } from './marketMapping.ts';
+import type { OddsMarketKey } from './marketMapping.ts';
+import type { BetfairMarketPrices, BetfairPrice } from './types.ts';
 
-export interface BetfairOdds {
-  marketId: string;
-  marketName: string;
-  runners: BetfairRunner[];
-}
+export type SelectionSide = 'home' | 'away' | 'draw' | 'over' | 'under';
 
 /**
- * Find matching Betfair runner for a bookie outcome
- * This is a simplified matching - in production you'd need more sophisticated matching
+ * Detection floors - overridable for backtests
  */
-function findMatchingRunner(
-  bookieOutcome: string,
-  betfairRunners: BetfairRunner[],
-): BetfairRunner | null {
-  const normalizedBookie = bookieOutcome.toLowerCase().trim();
-
-  for (const runner of betfairRunners) {
-    const normalizedRunner = runner.runnerName.toLowerCase().trim();
-
-    // Exact match
-    if (normalizedRunner === normalizedBookie) {
-      return runner;
-    }
+export interface DetectionThresholds {
+  minNetMargin: number; // Net margin after commission, e.g. 0.02 (2%)
+  minLayLiquidity: number; // $ lay stake fillable at that margin
+}
 
-    // Partial match (e.g., "Lakers" matches "Los Angeles Lakers")
-    if (
-      normalizedRunner.includes(normalizedBookie) ||
-      normalizedBookie.includes(normalizedRunner)
-    ) {
-      return runner;
-    }
-  }
+export const DEFAULT_DETECTION_THRESHOLDS: DetectionThresholds = {
+  minNetMargin: 0.02,
+  minLayLiquidity: 20,
+};
 
-  return null;
-}
+// The-Odds-API names the draw outcome "Draw"; Betfair names the runner "The Draw"
+// (both normalise to "draw" in entity resolution)
+const DRAW_OUTCOME = 'Draw';
 
 /**
- * Detect arbitrage opportunities by comparing bookie and Betfair odds
+ * Price the lay side of an arb from a runner's lay ladder
+ * Margin uses the best price; fillable liquidity only counts levels that clear minNetMargin
  */
-export function detectArbs(
-  bookieOdds: BookieOdds[],
-  betfairOdds: BetfairOdds,
-): ArbOpportunity[] {
-  const opportunities: ArbOpportunity[] = [];
+function priceLaySide(
+  backOdds: number,
+  layPrices: BetfairPrice[],
+  commissionRate: number,
+  minNetMargin: number,
+) {
+  if (layPrices.length === 0) return null;
 
-  for (const bookie of bookieOdds) {
-    const matchingRunner = findMatchingRunner(bookie.outcome, betfairOdds.runners);
-
-    if (!matchingRunner) continue;
-
-    // Get best lay price from Betfair
-    const layPrices = matchingRunner.ex?.availableToLay || [];
-    if (layPrices.length === 0) continue;
-
-    const bestLayPrice = layPrices[0];
-    const layOdds = bestLayPrice.price;
-    const layLiquidity = bestLayPrice.size * layOdds; // Approximate liquidity
-
-    // Calculate profit margin
-    const profitMargin = calculateProfitMargin(bookie.odds, layOdds);
-
-    // Only consider positive arbitrage (bookie odds > lay odds)
-    if (profitMargin > 0) {
-      const arbId = generateArbId(bookie.eventId, bookie.outcome);
-
-      // Build bookie URL - The-Odds-API provides affiliate links
-      // In production, you'd construct this from the bookie key and event
-      const bookieUrl = `https://www.${bookie.bookieKey.toLowerCase()}.com.au/bet/${bookie.eventId}`;
-
-      opportunities.push({
-        id: arbId,
-        event: bookie.event,
-        sport: bookie.sport,
-        startTime: bookie.startTime,
-        bookie: bookie.bookie,
-        bookieOdds: bookie.odds,
-        bookieUrl,
-        suggestedStake: 0, // Will be calculated later
-        betfairMarketId: betfairOdds.marketId,
-        betfairSelectionId: matchingRunner.selectionId,
-        layOdds,
-        layLiquidity,
-        profitMargin,
-      });
-    }
-  }
+  const layOdds = layPrices[0].price;
+  const layLadder = profitableLadder(backOdds, layPrices, commissionRate, minNetMargin);
 
-  return opportunities;
+  return {
+    layOdds,
+    layLiquidity: ladderSize(layPrices),
+    layLadder,
+    layFillable: ladderSize(layLadder),
+    layVwap: layOdds, // Refined for the actual stake by processArbOpportunity
+    ...priceArb(backOdds, layOdds, commissionRate),
+  };
 }
 
 /**
- * Build a complete arb opportunity from bookie and Betfair data
+ * Rank arbs best first - by net margin, then by fillable lay liquidity
  */
-export function buildArbOpportunity(
-  bookie: BookieOdds,
-  betfairRunner: BetfairRunner,
-  betfairMarketId: string,
-  event: string,
-  sport: string,
-  startTime: string,
-): ArbOpportunity | null {
-  const layPrices = betfairRunner.ex?.availableToLay || [];
-  if (layPrices.length === 0) return null;
-
-  const bestLayPrice = layPrices[0];
-  const layOdds = bestLayPrice.price;
-  const layLiquidity = bestLayPrice.size * layOdds;
-
-  const profitMargin = calculateProfitMargin(bookie.odds, layOdds);
-  if (profitMargin <= 0) return null;
+export function rankArbs(opportunities: ArbOpportunity[]): ArbOpportunity[] {
+  return [...opportunities].sort((a, b) =>
+    b.netMargin - a.netMargin || b.layFillable - a.layFillable
+  );
+}
 
-  const arbId = generateArbId(bookie.eventId, bookie.outcome);
-  const bookieUrl = `https://www.${bookie.bookieKey.toLowerCase()}.com.au/bet/${bookie.eventId}`;
+/**
+ * Line a Betfair runner is priced at - market-level for OVER_UNDER_xx, else the runner handicap
+ */
+function runnerLine(bfMarket: BetfairMarketPrices, runner: { handicap?: number }): number | undefined {
+  return bfMarket.line ?? runner.handicap;
+}
 
-  return {
-    id: arbId,
-    event,
-    sport,
-    startTime,
-    bookie: bookie.bookie,
-    bookieOdds: bookie.odds,
-    bookieUrl,
-    suggestedStake: 0, // Will be calculated later
-    betfairMarketId,
-    betfairSelectionId: betfairRunner.selectionId,
-    layOdds,
-    layLiquidity,
-    profitMargin,
-  };
+/**
+ * Resolve the Betfair runner for a selection among runners at the same line
+ * Over/Under runners ("Over 2.5 Goals") are matched on their leading word
+ */
+function resolveSelectionRunner<T extends { runnerName: string }>(
+  selection: { outcome: string; side: SelectionSide },
+  runners: T[],
+  sportKey: string,
+  learnedAliases: Record<string, string>,
+): RunnerMatch<T> | null {
+  if (selection.side === 'over' || selection.side === 'under') {
+    const runner = runners.find((r) => normalizeTeamName(r.runnerName).split(' ')[0] === selection.side);
+    return runner ? { runner, confidence: 1, method: 'exact' } : null;
+  }
+  return matchRunner(selection.outcome, runners, { sportKey, learned: learnedAliases });
 }
 
 /**
- * Detect arbitrage opportunity for a single game by comparing bookie odds with Betfair lay odds
+ * Detect arbitrage opportunities for a single game by comparing bookie odds with Betfair lay odds
  * Takes a parsed game object (from parseOddsResponse) and a Betfair market object
+ * Evaluates every selection (home, away, draw / over, under) at every bookie and line, and
+ * returns all qualifying combinations, ranked best first. For spreads and totals the bookie
+ * point must be identical to the Betfair line.
  */
 export function detectArb(
   game: {
@@ -168,84 +109,125 @@ export function detectArb(
       point?: number;
     }>;
   },
-  bfMarket: {
-    marketId: string;
-    runners: Array<{
-      selectionId: number;
-      runnerName: string;
-      ex?: {
-        availableToBack: Array<{ price: number; size: number }>;
-        availableToLay: Array<{ price: number; size: number }>;
-      };
-    }>;
-  },
-): ArbOpportunity | null {
-  // Find the Betfair runner for the home team
-  const homeRunner = bfMarket.runners.find((r) =>
-    r.runnerName.toLowerCase().includes(game.homeTeam.toLowerCase()) ||
-    game.homeTeam.toLowerCase().includes(r.runnerName.toLowerCase())
-  );
+  bfMarket: BetfairMarketPrices,
+  commissionRate: number,
+  learnedAliases: Record<string, string> = {},
+  oddsMarket: OddsMarketKey = 'h2h',
+  thresholds: DetectionThresholds = DEFAULT_DETECTION_THRESHOLDS,
+): ArbOpportunity[] {
+  const { minNetMargin, minLayLiquidity } = thresholds;
+  const opportunities: ArbOpportunity[] = [];
+  const claimedRunners = new Set<string>();
+
+  // Every selection in the market: home, away and (for three-way markets) the draw,
+  // or over/under for totals
+  const selections: Array<{ outcome: string; side: SelectionSide }> = oddsMarket === 'totals'
+    ? [
+      { outcome: 'Over', side: 'over' },
+      { outcome: 'Under', side: 'under' },
+    ]
+    : [
+      { outcome: game.homeTeam, side: 'home' },
+      { outcome: game.awayTeam, side: 'away' },
+      ...(oddsMarket === 'h2h' ? [{ outcome: DRAW_OUTCOME, side: 'draw' as const }] : []),
+    ];
+
+  for (const selection of selections) {
+    // Group bookmakers by line, then by bookie to find the best odds for this selection
+    const lines = new Map<number | undefined, Map<string, { bookie: string; bookieKey: string; odds: number }>>();
+
+    for (const bm of game.bookmakers) {
+      // Only consider this market's outcomes for this selection
+      if (bm.market === oddsMarket && bm.outcome === selection.outcome) {
+        const point = oddsMarket === 'h2h' ? undefined : bm.point;
+        if (oddsMarket !== 'h2h' && point === undefined) continue;
+
+        const bookieMap = lines.get(point) ?? new Map();
+        lines.set(point, bookieMap);
+
+        const existing = bookieMap.get(bm.bookie);
+        if (!existing || bm.odds > existing.odds) {
+          bookieMap.set(bm.bookie, {
+            bookie: bm.bookie,
+            bookieKey: bm.bookieKey,
+            odds: bm.odds,
+          });
+        }
+      }
+    }
 
-  if (!homeRunner || !homeRunner.ex?.availableToLay || homeRunner.ex.availableToLay.length === 0) {
-    return null;
-  }
+    // No lines when the bookies don't offer the selection (e.g. no draw in two-way markets)
+    for (const [point, bookieMap] of lines) {
+      // Only runners priced at exactly the bookie's line
+      const lineRunners = point === undefined
+        ? bfMarket.runners
+        : bfMarket.runners.filter((r) => runnerLine(bfMarket, r) === point);
+
+      // Resolve the Betfair runner for this selection (rejects low-confidence and ambiguous matches)
+      const match = resolveSelectionRunner(selection, lineRunners, game.sportKey, learnedAliases);
+      if (!match || match.confidence < MIN_MATCH_CONFIDENCE) {
+        continue;
+      }
 
-  const bfLayPrice = homeRunner.ex.availableToLay[0];
-  const bfLayOdds = bfLayPrice.price;
-  const bfLiquidity = bfLayPrice.size;
-
-  // Group bookmakers by bookie to find the best home team odds for each bookie
-  const bookieMap = new Map<string, { bookie: string; bookieKey: string; odds: number }>();
-
-  for (const bm of game.bookmakers) {
-    // Only consider h2h market outcomes for the home team
-    if (bm.market === 'h2h' && bm.outcome === game.homeTeam) {
-      const existing = bookieMap.get(bm.bookie);
-      if (!existing || bm.odds > existing.odds) {
-        bookieMap.set(bm.bookie, {
-          bookie: bm.bookie,
-          bookieKey: bm.bookieKey,
-          odds: bm.odds,
-        });
+      // Never let two selections resolve to the same runner at the same line
+      const runner = match.runner;
+      const runnerKey = `${runner.selectionId}_${point ?? ''}`;
+      if (claimedRunners.has(runnerKey)) {
+        continue;
+      }
+      claimedRunners.add(runnerKey);
+
+      if (!runner.ex?.availableToLay || runner.ex.availableToLay.length === 0) {
+        continue;
       }
-    }
-  }
 
-  // Check each bookie's back odds against Betfair lay odds
-  for (const [bookieName, bookieData] of bookieMap) {
-    const backPrice = bookieData.odds;
-
-    // Calculate implied probability: (1/backPrice) + (1/layPrice)
-    // If < 1.0, there's an arbitrage opportunity
-    const impliedProb = (1 / backPrice) + (1 / bfLayOdds);
-
-    // Require at least 2% profit margin (impliedProb < 0.98)
-    // Also check if enough liquidity exists on Betfair (at least $20)
-    if (impliedProb < 0.98 && bfLiquidity > 20) {
-      // Calculate profit margin
-      const margin = (1 / impliedProb) - 1;
-
-      // Build bookie URL (fallback if not available from API)
-      const bookieUrl = `https://www.${bookieData.bookieKey.toLowerCase()}.com.au/bet/${game.eventId}`;
-
-      return {
-        id: `${game.eventId}_${bookieData.bookieKey}_home`,
-        event: `${game.homeTeam} vs ${game.awayTeam}`,
-        sport: game.sport,
-        startTime: game.commenceTime,
-        bookie: bookieName,
-        bookieOdds: backPrice,
-        bookieUrl,
-        suggestedStake: 0, // Will be calculated by processArbOpportunity
-        betfairMarketId: bfMarket.marketId,
-        betfairSelectionId: homeRunner.selectionId,
-        layOdds: bfLayOdds,
-        layLiquidity: bfLiquidity,
-        profitMargin: margin,
-      };
+      const bfLayLadder = runner.ex.availableToLay;
+
+      // Check each bookie's back odds against Betfair lay odds
+      for (const [bookieName, bookieData] of bookieMap) {
+        const backPrice = bookieData.odds;
+
+        // Net margin locked in after Betfair commission on the lay win,
+        // plus the ladder depth that keeps at least the minimum net margin (2%)
+        const lay = priceLaySide(backPrice, bfLayLadder, commissionRate, minNetMargin);
+
+        // Require the minimum net profit margin (default 2%)
+        // Also check if enough liquidity exists on Betfair at that margin (default more than $20)
+        if (lay && lay.netMargin >= minNetMargin && lay.layFillable > minLayLiquidity) {
+          // Build bookie URL (fallback if not available from API)
+          const bookieUrl = `https://www.${bookieData.bookieKey.toLowerCase()}.com.au/bet/${game.eventId}`;
+          const id = oddsMarket === 'h2h'
+            ? `${game.eventId}_${bookieData.bookieKey}_${selection.side}`
+            : `${game.eventId}_${bookieData.bookieKey}_${oddsMarket}_${selection.side}_${point}`;
+
+          opportunities.push({
+            id,
+            event: `${game.homeTeam} vs ${game.awayTeam}`,
+            sport: game.sport,
+            sportKey: game.sportKey,
+            startTime: game.commenceTime,
+            market: oddsMarket,
+            selection: formatSelection(selection.outcome, point),
+            point,
+            bookie: bookieName,
+            bookieOdds: backPrice,
+            bookieUrl,
+            suggestedStake: 0, // Will be calculated by processArbOpportunity
+            betfairMarketId: bfMarket.marketId,
+            betfairSelectionId: runner.selectionId,
+            betfairHandicap: runner.handicap,
+            betfairRunnerName: runner.runnerName,
+            matchConfidence: match.confidence,
+            layStake: 0, // Will be calculated by processArbOpportunity
+            layLiability: 0,
+            profitIfBackWins: 0,
+            profitIfBackLoses: 0,
+            ...lay,
+          });
+        }
+      }
     }
   }
 
-  return null;
+  return rankArbs(opportunities);
 }
-
@@ -1,32 +1,53 @@
 // Arbitrage Engine - Deduplication and validation
 
-import type { ArbOpportunity } from './types.ts';
-import { calculateProfitMargin } from './utils.ts';
+import type { ArbOpportunity, BookieArbOpportunity } from './types.ts';
+import { priceArb } from './pricing.ts';
 
 const MIN_PROFIT_MARGIN = 0.02; // 2%
 const KV_EXPIRY_SECONDS = 2 * 60 * 60; // 2 hours
 
+export interface ArbEngineOptions {
+  minProfitMargin?: number; // Defaults to 2%
+  now?: () => Date; // Clock for dedupe - backtests replay recorded time
+}
+
 export class ArbEngine {
   private kv: Deno.Kv;
+  private minProfitMargin: number;
+  private now: () => Date;
 
-  constructor(kv: Deno.Kv) {
+  constructor(kv: Deno.Kv, options: ArbEngineOptions = {}) {
     this.kv = kv;
+    this.minProfitMargin = options.minProfitMargin ?? MIN_PROFIT_MARGIN;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /**
+   * Change the validation floor (e.g. from a /minmargin command)
+   */
+  setMinProfitMargin(margin: number): void {
+    this.minProfitMargin = margin;
   }
 
   /**
-   * Check if an arb opportunity has already been processed
+   * Check if an arb opportunity has already been processed (within the dedupe window)
    */
   async isProcessed(id: string): Promise<boolean> {
-    const result = await this.kv.get(['processed', id]);
-    return result.value !== null;
+    const result = await this.kv.get<{ timestamp: string }>(['processed', id]);
+    if (result.value === null) {
+      return false;
+    }
+    // KV expiry is lazy and runs on wall-clock time; check the window against our clock too
+    const age = this.now().getTime() - new Date(result.value.timestamp).getTime();
+    return age < KV_EXPIRY_SECONDS * 1000;
   }
 
   /**
    * Mark an arb opportunity as processed
    */
-  async markProcessed(arb: ArbOpportunity): Promise<void> {
+  async markProcessed(arb: ArbOpportunity | BookieArbOpportunity): Promise<void> {
     await this.kv.set(['processed', arb.id], {
-      timestamp: new Date().toISOString(),
+      timestamp: this.now().toISOString(),
       arbId: arb.id,
     }, {
       expireIn: KV_EXPIRY_SECONDS * 1000,
@@ -35,22 +56,32 @@ export class ArbEngine {
 
   /**
    * Validate an arb opportunity against business rules
+   * minProfitMargin overrides the engine's floor for this arb (e.g. a sport's own minimum)
    */
-  validateArb(arb: ArbOpportunity): { valid: boolean; reason?: string } {
-    // Check profit margin
-    if (arb.profitMargin < MIN_PROFIT_MARGIN) {
+  validateArb(arb: ArbOpportunity, minProfitMargin = this.minProfitMargin): { valid: boolean; reason?: string } {
+    // Check net profit margin (after Betfair commission) at the volume-weighted lay price
+    const { netMargin } = priceArb(arb.bookieOdds, arb.layVwap, arb.commissionRate);
+    if (netMargin < minProfitMargin) {
       return {
         valid: false,
-        reason: `Profit margin ${(arb.profitMargin * 100).toFixed(2)}% is below minimum ${(MIN_PROFIT_MARGIN * 100).toFixed(2)}%`,
+        reason: `Net profit margin ${(netMargin * 100).toFixed(2)}% is below minimum ${(minProfitMargin * 100).toFixed(2)}%`,
       };
     }
 
-    // Check liquidity - need enough to cover the full back bet
-    const requiredLiquidity = arb.suggestedStake * arb.bookieOdds;
-    if (arb.layLiquidity < requiredLiquidity) {
+    // Check the ladder could absorb any stake at a profitable margin
+    if (arb.suggestedStake <= 0 || arb.layStake <= 0) {
       return {
         valid: false,
-        reason: `Insufficient liquidity: need $${requiredLiquidity.toFixed(2)}, have $${arb.layLiquidity.toFixed(2)}`,
+        reason: 'Lay ladder cannot absorb a stake at a profitable margin',
+      };
+    }
+
+    // Check liquidity - the equalised lay stake must be fillable at profitable ladder levels
+    const requiredLiquidity = arb.layStake;
+    if (arb.layFillable < requiredLiquidity) {
+      return {
+        valid: false,
+        reason: `Insufficient liquidity: need $${requiredLiquidity.toFixed(2)}, fillable $${arb.layFillable.toFixed(2)}`,
       };
     }
 
@@ -60,7 +91,7 @@ export class ArbEngine {
   /**
    * Process an arb opportunity - check if already processed, validate, and mark as processed
    */
-  async processArb(arb: ArbOpportunity): Promise<{ processed: boolean; reason?: string }> {
+  async processArb(arb: ArbOpportunity, minProfitMargin?: number): Promise<{ processed: boolean; reason?: string }> {
     // Check if already processed
     if (await this.isProcessed(arb.id)) {
       return {
@@ -70,7 +101,7 @@ export class ArbEngine {
     }
 
     // Validate
-    const validation = this.validateArb(arb);
+    const validation = this.validateArb(arb, minProfitMargin);
     if (!validation.valid) {
       return {
         processed: false,
@@ -83,5 +114,38 @@ export class ArbEngine {
 
     return { processed: true };
   }
-}
 
+  /**
+   * Process a bookie-vs-bookie arb - check if already processed, validate, and mark as processed
+   */
+  async processBookieArb(
+    arb: BookieArbOpportunity,
+    minProfitMargin = this.minProfitMargin,
+  ): Promise<{ processed: boolean; reason?: string }> {
+    if (await this.isProcessed(arb.id)) {
+      return {
+        processed: false,
+        reason: 'Already processed',
+      };
+    }
+
+    if (arb.profitMargin < minProfitMargin) {
+      return {
+        processed: false,
+        reason: `Profit margin ${(arb.profitMargin * 100).toFixed(2)}% is below minimum ${(minProfitMargin * 100).toFixed(2)}%`,
+      };
+    }
+
+    // Whole-dollar rounding of the legs can eat a thin margin
+    if (arb.guaranteedProfit <= 0) {
+      return {
+        processed: false,
+        reason: `Stake split leaves no guaranteed profit ($${arb.guaranteedProfit.toFixed(2)})`,
+      };
+    }
+
+    await this.markProcessed(arb);
+
+    return { processed: true };
+  }
+}
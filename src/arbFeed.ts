@@ -0,0 +1,117 @@
+// Arb Feed - Recent processed opportunities in KV, with live subscribers for the HTTP stream
+
+import type { ArbOpportunity } from './types.ts';
+
+const FEED_TTL_MS = 3 * 24 * 60 * 60 * 1000; // /arbs looks back at most 3 days
+const MAX_LIMIT = 500;
+
+/**
+ * One processed opportunity, under ['arb_feed', processedAt ms, arbId]
+ */
+export interface FeedEntry {
+  processedAt: string; // ISO Date
+  arb: ArbOpportunity;
+}
+
+export interface FeedFilter {
+  sport?: string; // Sport title, e.g. "NBA"
+  bookie?: string;
+  market?: string; // "h2h", "spreads" or "totals"
+  minMargin?: number; // Net margin, e.g. 0.025
+  since?: Date;
+  limit?: number; // Default 100, max 500
+}
+
+export type FeedListener = (entry: FeedEntry) => void;
+
+/**
+ * Parse /arbs query parameters into a filter - returns an error message for bad values
+ */
+export function parseFeedFilter(query: Record<string, string | undefined>): FeedFilter | string {
+  const filter: FeedFilter = {
+    sport: query.sport,
+    bookie: query.bookie,
+    market: query.market,
+  };
+
+  if (query.minMargin !== undefined) {
+    const minMargin = parseFloat(query.minMargin);
+    if (isNaN(minMargin)) return 'minMargin must be a number, e.g. 0.025';
+    filter.minMargin = minMargin;
+  }
+  if (query.since !== undefined) {
+    const since = new Date(query.since);
+    if (isNaN(since.getTime())) return 'since must be an ISO date';
+    filter.since = since;
+  }
+  if (query.limit !== undefined) {
+    const limit = parseInt(query.limit, 10);
+    if (!(limit > 0)) return 'limit must be a positive integer';
+    filter.limit = Math.min(limit, MAX_LIMIT);
+  }
+  return filter;
+}
+
+function matchesFilter(entry: FeedEntry, filter: FeedFilter): boolean {
+  const { arb } = entry;
+  return (!filter.sport || arb.sport.toLowerCase() === filter.sport.toLowerCase()) &&
+    (!filter.bookie || arb.bookie.toLowerCase() === filter.bookie.toLowerCase()) &&
+    (!filter.market || arb.market === filter.market) &&
+    (filter.minMargin === undefined || arb.netMargin >= filter.minMargin);
+}
+
+export class ArbFeed {
+  private kv: Deno.Kv;
+  private listeners = new Set<FeedListener>();
+
+  constructor(kv: Deno.Kv) {
+    this.kv = kv;
+  }
+
+  /**
+   * Store a processed arb and push it to live subscribers
+   */
+  async publish(arb: ArbOpportunity): Promise<void> {
+    const now = new Date();
+    const entry: FeedEntry = { processedAt: now.toISOString(), arb };
+    await this.kv.set(['arb_feed', now.getTime(), arb.id], entry, { expireIn: FEED_TTL_MS });
+
+    for (const listener of this.listeners) {
+      try {
+        listener(entry);
+      } catch (error) {
+        console.error('Arb feed listener failed:', error);
+      }
+    }
+  }
+
+  /**
+   * Listen for published arbs - returns the unsubscribe function
+   */
+  subscribe(listener: FeedListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  get subscriberCount(): number {
+    return this.listeners.size;
+  }
+
+  /**
+   * Most recent first
+   */
+  async list(filter: FeedFilter = {}): Promise<FeedEntry[]> {
+    const limit = filter.limit ?? 100;
+    const selector = filter.since
+      ? { prefix: ['arb_feed'], start: ['arb_feed', filter.since.getTime()] }
+      : { prefix: ['arb_feed'] };
+
+    const entries: FeedEntry[] = [];
+    for await (const entry of this.kv.list<FeedEntry>(selector, { reverse: true })) {
+      if (!matchesFilter(entry.value, filter)) continue;
+      entries.push(entry.value);
+      if (entries.length >= limit) break;
+    }
+    return entries;
+  }
+}
@@ -0,0 +1,242 @@
+// Arb Lifecycle - How long each accepted arb survives across scans, why it closed, and duration stats
+
+import type { ArbOpportunity, BetfairMarketPrices } from './types.ts';
+import { getSydneyDateKey } from './config.ts';
+
+const OPEN_TTL_MS = 2 * 24 * 60 * 60 * 1000; // Kickoff closes them well before this
+const CLOSED_TTL_MS = 90 * 24 * 60 * 60 * 1000;
+const WORKABLE_MINUTES = 5; // Long enough to place both legs by hand
+
+export type ArbCloseReason = 'bookie_moved' | 'lay_moved' | 'kickoff';
+export type LifecycleGrouping = 'bookie' | 'sport' | 'market' | 'reason';
+
+export const CLOSE_REASON_LABELS: Record<ArbCloseReason, string> = {
+  bookie_moved: 'bookie moved',
+  lay_moved: 'lay moved',
+  kickoff: 'kickoff',
+};
+
+/**
+ * One arb id from acceptance to close
+ * Open under ['arb_lifecycle_open', arbId], then moved to ['arb_lifecycle', closedAtMs, arbId] for 90 days
+ */
+export interface ArbLifecycle {
+  arbId: string;
+  day: string; // Sydney date first seen (YYYY-MM-DD)
+  event: string;
+  sport: string;
+  market: string;
+  selection: string;
+  bookie: string;
+  startTime: string; // ISO Date
+  betfairMarketId: string;
+  betfairSelectionId: number;
+  betfairHandicap?: number;
+  firstSeen: string; // ISO Date - the ArbEngine processed timestamp
+  lastSeen: string; // ISO Date - last scan that still detected it
+  closedAt?: string; // ISO Date - first scan that didn't (or kickoff)
+  closeReason?: ArbCloseReason;
+  scans: number; // Scans that detected it
+  firstNetMargin: number;
+  peakNetMargin: number;
+  lastBookieOdds: number;
+  lastLayOdds: number;
+}
+
+export interface DurationStats {
+  arbs: number;
+  medianMinutes: number;
+  meanMinutes: number;
+  p90Minutes: number;
+  longestMinutes: number;
+  workable: number; // Share that lasted at least 5 minutes
+  avgPeakMargin: number;
+}
+
+/**
+ * Minutes from first seen to closed (or last seen while still open)
+ */
+export function lifecycleMinutes(record: ArbLifecycle): number {
+  const end = new Date(record.closedAt ?? record.lastSeen).getTime();
+  return Math.max(0, (end - new Date(record.firstSeen).getTime()) / 60000);
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+/**
+ * Duration stats for closed lifecycles, grouped by bookie, sport, market or close reason
+ */
+export function summariseDurations(records: ArbLifecycle[], by: LifecycleGrouping): Record<string, DurationStats> {
+  const groups: Record<string, ArbLifecycle[]> = {};
+  for (const record of records) {
+    const key = by === 'reason' ? CLOSE_REASON_LABELS[record.closeReason ?? 'kickoff'] : record[by];
+    (groups[key] ??= []).push(record);
+  }
+
+  const round = (value: number) => Math.round(value * 10) / 10;
+  return Object.fromEntries(Object.entries(groups).map(([key, group]) => {
+    const minutes = group.map(lifecycleMinutes).sort((a, b) => a - b);
+    return [key, {
+      arbs: group.length,
+      medianMinutes: round(percentile(minutes, 0.5)),
+      meanMinutes: round(minutes.reduce((sum, m) => sum + m, 0) / minutes.length),
+      p90Minutes: round(percentile(minutes, 0.9)),
+      longestMinutes: round(minutes[minutes.length - 1]),
+      workable: minutes.filter((m) => m >= WORKABLE_MINUTES).length / minutes.length,
+      avgPeakMargin: group.reduce((sum, r) => sum + r.peakNetMargin, 0) / group.length,
+    }];
+  }));
+}
+
+/**
+ * One line per group for chat alerts, most arbs first
+ */
+export function formatDurationStats(rows: Record<string, DurationStats>): string {
+  return Object.entries(rows)
+    .sort(([, a], [, b]) => b.arbs - a.arbs)
+    .map(([key, row]) =>
+      `${key}: ${row.arbs} arbs, median ${row.medianMinutes}m, p90 ${row.p90Minutes}m, ` +
+      `${(row.workable * 100).toFixed(0)}% lasted ${WORKABLE_MINUTES}m+`
+    )
+    .join('\n');
+}
+
+/**
+ * Why a priced arb wasn't detected again - the lay side moved if the runner's best lay price
+ * rose (or went), otherwise the bookie price dropped or was pulled
+ */
+function closeReasonFromBook(record: ArbLifecycle, book: BetfairMarketPrices): ArbCloseReason {
+  const runner = book.runners.find((r) =>
+    r.selectionId === record.betfairSelectionId &&
+    (record.betfairHandicap === undefined || r.handicap === record.betfairHandicap)
+  );
+  const bestLay = runner?.ex?.availableToLay[0]?.price;
+  return bestLay === undefined || bestLay > record.lastLayOdds ? 'lay_moved' : 'bookie_moved';
+}
+
+export class ArbLifecycleStore {
+  private kv: Deno.Kv;
+
+  constructor(kv: Deno.Kv) {
+    this.kv = kv;
+  }
+
+  /**
+   * Start tracking an accepted arb - first seen is when ArbEngine marked it processed
+   * An arb re-accepted after the dedupe window while still open keeps its original lifecycle
+   */
+  async open(arb: ArbOpportunity, now = new Date()): Promise<void> {
+    const key = ['arb_lifecycle_open', arb.id];
+    if ((await this.kv.get(key)).value) {
+      return;
+    }
+
+    const processed = await this.kv.get<{ timestamp: string }>(['processed', arb.id]);
+    const firstSeen = processed.value?.timestamp ?? now.toISOString();
+    const record: ArbLifecycle = {
+      arbId: arb.id,
+      day: getSydneyDateKey(new Date(firstSeen)),
+      event: arb.event,
+      sport: arb.sport,
+      market: arb.market,
+      selection: arb.selection,
+      bookie: arb.bookie,
+      startTime: arb.startTime,
+      betfairMarketId: arb.betfairMarketId,
+      betfairSelectionId: arb.betfairSelectionId,
+      betfairHandicap: arb.betfairHandicap,
+      firstSeen,
+      lastSeen: now.toISOString(),
+      scans: 1,
+      firstNetMargin: arb.netMargin,
+      peakNetMargin: arb.netMargin,
+      lastBookieOdds: arb.bookieOdds,
+      lastLayOdds: arb.layOdds,
+    };
+    await this.kv.set(key, record, { expireIn: OPEN_TTL_MS });
+  }
+
+  /**
+   * Extend open lifecycles for arbs detected again this scan
+   */
+  async observe(opportunities: ArbOpportunity[], now = new Date()): Promise<void> {
+    for (const opportunity of opportunities) {
+      const key = ['arb_lifecycle_open', opportunity.id];
+      const record = (await this.kv.get<ArbLifecycle>(key)).value;
+      if (!record) continue;
+
+      await this.kv.set(key, {
+        ...record,
+        lastSeen: now.toISOString(),
+        scans: record.scans + 1,
+        peakNetMargin: Math.max(record.peakNetMargin, opportunity.netMargin),
+        lastBookieOdds: opportunity.bookieOdds,
+        lastLayOdds: opportunity.layOdds,
+      } satisfies ArbLifecycle, { expireIn: OPEN_TTL_MS });
+    }
+  }
+
+  /**
+   * Close open lifecycles that weren't detected again: on markets priced this scan (bookie or
+   * lay moved), or once the event has started. A closed arb can be accepted (and alerted) again.
+   * Returns the lifecycles closed.
+   */
+  async sweep(
+    books: Map<string, BetfairMarketPrices>,
+    seenArbIds: Set<string>,
+    now = new Date(),
+  ): Promise<ArbLifecycle[]> {
+    const closed: ArbLifecycle[] = [];
+    for await (const entry of this.kv.list<ArbLifecycle>({ prefix: ['arb_lifecycle_open'] })) {
+      const record = entry.value;
+      if (seenArbIds.has(record.arbId)) continue;
+
+      const book = books.get(record.betfairMarketId);
+      let closedAt: string;
+      let closeReason: ArbCloseReason;
+      if (new Date(record.startTime).getTime() <= now.getTime()) {
+        closedAt = record.startTime;
+        closeReason = 'kickoff';
+      } else if (book) {
+        closedAt = now.toISOString();
+        closeReason = closeReasonFromBook(record, book);
+      } else {
+        continue; // Not checked this scan
+      }
+
+      // Also lift the ArbEngine dedupe, so an arb that reopens inside the window starts a new lifecycle
+      const result: ArbLifecycle = { ...record, closedAt, closeReason };
+      await this.kv.atomic()
+        .delete(entry.key)
+        .delete(['processed', record.arbId])
+        .set(['arb_lifecycle', new Date(closedAt).getTime(), record.arbId], result, { expireIn: CLOSED_TTL_MS })
+        .commit();
+      closed.push(result);
+    }
+    return closed;
+  }
+
+  /**
+   * Closed lifecycles first seen within a Sydney date range (inclusive YYYY-MM-DD)
+   */
+  async listClosed(range: { from?: string; to?: string } = {}): Promise<ArbLifecycle[]> {
+    const records: ArbLifecycle[] = [];
+    for await (const entry of this.kv.list<ArbLifecycle>({ prefix: ['arb_lifecycle'] })) {
+      const record = entry.value;
+      if ((range.from && record.day < range.from) || (range.to && record.day > range.to)) continue;
+      records.push(record);
+    }
+    return records;
+  }
+
+  async listOpen(): Promise<ArbLifecycle[]> {
+    const records: ArbLifecycle[] = [];
+    for await (const entry of this.kv.list<ArbLifecycle>({ prefix: ['arb_lifecycle_open'] })) {
+      records.push(entry.value);
+    }
+    return records;
+  }
+}
@@ -0,0 +1,276 @@
+// Auto-Lay - Guarded Betfair lay execution (AUTO_LAY=dry-run|live)
+
+import type { AutoLayMode } from './config.ts';
+import { getSydneyDateKey } from './config.ts';
+import type { BetfairService } from './betfairService.ts';
+import { calculatePosition, fillLayLadder, profitableLadder, roundToTick } from './pricing.ts';
+import { calculateLiability } from './utils.ts';
+import type { ArbOpportunity } from './types.ts';
+
+export const MANUAL_LAY_STATUS = '⚠️ Manual Lay Required';
+const MIN_LAY_STAKE = 5; // Betfair AU minimum bet
+const KILL_SWITCH_KEY = ['auto_lay', 'kill_switch'];
+
+export interface AutoLayOptions {
+  mode: AutoLayMode;
+  maxBetLiability: number; // $ cap per lay
+  maxDailyLiability: number; // $ cap across lays per Sydney day
+  maxBalanceFraction: number; // Per-bet cap as a share of available balance
+  ladderDepth: number;
+}
+
+export type AutoLayOutcome = 'MANUAL' | 'SKIPPED' | 'DRY_RUN' | 'PLACED' | 'PARTIAL' | 'UNMATCHED' | 'FAILED';
+
+export interface AutoLayResult {
+  outcome: AutoLayOutcome;
+  status: string; // Alert line, replaces "Manual Lay Required"
+  layStake?: number; // Requested
+  layPrice?: number; // Limit price (tick-rounded)
+  betId?: string;
+  sizeMatched?: number;
+  averagePriceMatched?: number;
+  hedgedBackStake?: number; // Back stake the matched lay covers (partial fills)
+}
+
+/**
+ * The Betfair calls auto-lay makes - BetfairService, or the mock stand-in in mock mode
+ */
+export type AutoLayBetfair = Pick<BetfairService, 'getLayLadder' | 'getAccountFunds' | 'placeLayBet'>;
+
+export interface KillSwitch {
+  reason: string;
+  setAt: string; // ISO Date
+}
+
+/**
+ * Lay record per arb, under ['auto_lay', 'bet', arbId]
+ */
+export interface AutoLayRecord extends AutoLayResult {
+  arbId: string;
+  marketId: string;
+  selectionId: number;
+  liability: number; // Matched liability
+  placedAt: string; // ISO Date
+}
+
+/**
+ * Kill switch - while set, auto-lay places nothing (set automatically when a lay fails)
+ */
+export async function getKillSwitch(kv: Deno.Kv): Promise<KillSwitch | null> {
+  return (await kv.get<KillSwitch>(KILL_SWITCH_KEY)).value;
+}
+
+export async function setKillSwitch(kv: Deno.Kv, reason: string): Promise<void> {
+  await kv.set(KILL_SWITCH_KEY, { reason, setAt: new Date().toISOString() } satisfies KillSwitch);
+}
+
+export async function clearKillSwitch(kv: Deno.Kv): Promise<void> {
+  await kv.delete(KILL_SWITCH_KEY);
+}
+
+/**
+ * Liability auto-laid so far on a Sydney day
+ */
+export async function getDailyLiability(kv: Deno.Kv, now = new Date()): Promise<number> {
+  return (await kv.get<number>(['auto_lay', 'liability', getSydneyDateKey(now)])).value ?? 0;
+}
+
+/**
+ * Places the Betfair leg of an arb, only if every guard passes:
+ * kill switch off -> fresh book still profitable -> tick-rounded limit price ->
+ * per-bet and per-day liability caps -> fill-or-kill order -> partial fill check.
+ * Any failed guard leaves the lay to the user, with the reason in the alert.
+ */
+export class AutoLayExecutor {
+  private kv: Deno.Kv;
+  private betfairService: AutoLayBetfair;
+  private options: AutoLayOptions;
+
+  constructor(kv: Deno.Kv, betfairService: AutoLayBetfair, options: AutoLayOptions) {
+    this.kv = kv;
+    this.betfairService = betfairService;
+    this.options = options;
+  }
+
+  /**
+   * minNetMargin is the floor the arb was accepted at (the sport's own or /minmargin) -
+   * the re-fetched price must still clear it at placement
+   */
+  async execute(arb: ArbOpportunity, minNetMargin: number): Promise<AutoLayResult> {
+    if (this.options.mode === 'off') {
+      return { outcome: 'MANUAL', status: MANUAL_LAY_STATUS };
+    }
+
+    try {
+      const killSwitch = await getKillSwitch(this.kv);
+      if (killSwitch) {
+        return this.skip(`kill switch on: ${killSwitch.reason}`);
+      }
+
+      // Re-fetch the book - the scan's prices may be minutes old
+      const ladder = await this.betfairService.getLayLadder(
+        arb.betfairMarketId,
+        arb.betfairSelectionId,
+        arb.betfairHandicap,
+        this.options.ladderDepth,
+      );
+      if (!ladder) {
+        return this.skip('market closed, in-play or runner removed');
+      }
+
+      const levels = profitableLadder(arb.bookieOdds, ladder, arb.commissionRate, minNetMargin);
+      const fill = fillLayLadder(arb.suggestedStake, arb.bookieOdds, levels, arb.commissionRate);
+      if (fill.layStake === 0 || fill.backStake < arb.suggestedStake - 0.01) {
+        const best = ladder[0] ? `best lay now ${ladder[0].price}` : 'no lay offers';
+        return this.skip(`price moved (${best})`);
+      }
+
+      const layPrice = roundToTick(fill.layWorstPrice, 'down');
+      const { layStake } = calculatePosition(arb.suggestedStake, arb.bookieOdds, fill.layVwap, arb.commissionRate);
+      if (layStake < MIN_LAY_STAKE) {
+        return this.skip(`lay stake $${layStake.toFixed(2)} below Betfair minimum`);
+      }
+
+      // Worst case: everything matches at the limit price
+      const liability = Math.round(calculateLiability(layStake, layPrice) * 100) / 100;
+      const funds = await this.betfairService.getAccountFunds();
+      const betCap = Math.min(
+        this.options.maxBetLiability,
+        funds.availableToBetBalance * this.options.maxBalanceFraction,
+      );
+      if (liability > betCap) {
+        return this.skip(`liability $${liability.toFixed(2)} over per-bet cap $${betCap.toFixed(2)}`);
+      }
+      const today = await getDailyLiability(this.kv);
+      if (today + liability > this.options.maxDailyLiability) {
+        return this.skip(
+          `daily cap: $${today.toFixed(2)} + $${liability.toFixed(2)} > $${this.options.maxDailyLiability}`,
+        );
+      }
+
+      if (this.options.mode === 'dry-run') {
+        return {
+          outcome: 'DRY_RUN',
+          status: `🧪 Dry run - would lay $${layStake.toFixed(2)} @ ${layPrice} (liability $${liability.toFixed(2)})` +
+            ` - ${MANUAL_LAY_STATUS}`,
+          layStake,
+          layPrice,
+        };
+      }
+
+      // Reserve the worst case against the daily cap before placing, so concurrent lays can't both fit
+      const day = getSydneyDateKey();
+      if (!await this.addDailyLiability(day, liability, this.options.maxDailyLiability)) {
+        return this.skip(`daily cap: $${this.options.maxDailyLiability} reached by a concurrent lay`);
+      }
+      try {
+        return await this.place(arb, layStake, layPrice, day, liability);
+      } catch (error) {
+        await this.addDailyLiability(day, -liability);
+        throw error;
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return this.skip(`pre-checks failed: ${message}`);
+    }
+  }
+
+  /**
+   * Place the lay - `reserved` liability is already counted against the day and is
+   * trued up to the matched liability once the order report is back
+   */
+  private async place(
+    arb: ArbOpportunity,
+    layStake: number,
+    layPrice: number,
+    day: string,
+    reserved: number,
+  ): Promise<AutoLayResult> {
+    const bet = await this.betfairService.placeLayBet(
+      arb.betfairMarketId,
+      arb.betfairSelectionId,
+      layStake,
+      layPrice,
+      arb.betfairHandicap,
+      MIN_LAY_STAKE, // Take a partial fill rather than nothing - the alert says how much to back
+    );
+
+    if (bet.status === 'FAILED') {
+      await this.addDailyLiability(day, -reserved);
+      // Stop laying until someone has looked at it
+      await setKillSwitch(this.kv, `lay failed on ${arb.id}: ${bet.error ?? 'unknown error'}`);
+      console.error(`⛔ Auto-lay failed for ${arb.id} (${bet.error}) - kill switch set`);
+      return {
+        outcome: 'FAILED',
+        status: `⚠️ FAILED - Manual Lay Req (${bet.error || 'Unknown error'}) - auto-lay stopped`,
+        layStake,
+        layPrice,
+      };
+    }
+
+    const sizeMatched = bet.sizeMatched ?? 0;
+    const averagePriceMatched = bet.averagePriceMatched ?? layPrice;
+    const result: AutoLayResult = {
+      outcome: 'PLACED',
+      status: '',
+      layStake,
+      layPrice,
+      betId: bet.betId,
+      sizeMatched,
+      averagePriceMatched,
+    };
+
+    if (sizeMatched === 0) {
+      result.outcome = 'UNMATCHED';
+      result.status = `⚠️ NOT MATCHED @ ${layPrice} (price gone) - Manual Lay Req`;
+    } else if (sizeMatched < layStake - 0.01) {
+      // Back only what the matched lay covers: backStake * backOdds = matched * (avgPrice - commission)
+      result.outcome = 'PARTIAL';
+      result.hedgedBackStake = Math.floor(
+        (sizeMatched * (averagePriceMatched - arb.commissionRate)) / arb.bookieOdds,
+      );
+      result.status = `⚠️ PARTIAL - Laid $${sizeMatched.toFixed(2)} of $${layStake.toFixed(2)} ` +
+        `@ avg ${averagePriceMatched} (bet ${bet.betId}) - back only $${result.hedgedBackStake}`;
+    } else {
+      result.status = `✅ Auto-Laid $${sizeMatched.toFixed(2)} @ avg ${averagePriceMatched} (bet ${bet.betId})`;
+    }
+
+    const liability = Math.round(calculateLiability(sizeMatched, averagePriceMatched) * 100) / 100;
+    await this.addDailyLiability(day, liability - reserved);
+    await this.kv.set(['auto_lay', 'bet', arb.id], {
+      ...result,
+      arbId: arb.id,
+      marketId: arb.betfairMarketId,
+      selectionId: arb.betfairSelectionId,
+      liability,
+      placedAt: new Date().toISOString(),
+    } satisfies AutoLayRecord);
+    return result;
+  }
+
+  /**
+   * Add to a Sydney day's auto-laid liability (negative releases a reservation)
+   * Returns false, adding nothing, if the total would go over the cap
+   */
+  private async addDailyLiability(day: string, amount: number, cap = Infinity): Promise<boolean> {
+    const key = ['auto_lay', 'liability', day];
+
+    // Retry on conflict - lays across games run concurrently
+    while (true) {
+      const entry = await this.kv.get<number>(key);
+      const total = Math.round(((entry.value ?? 0) + amount) * 100) / 100;
+      if (total > cap) return false;
+
+      const result = await this.kv.atomic()
+        .check(entry)
+        .set(key, Math.max(total, 0), { expireIn: 2 * 24 * 60 * 60 * 1000 })
+        .commit();
+      if (result.ok) return true;
+    }
+  }
+
+  private skip(reason: string): AutoLayResult {
+    console.log(`Auto-lay skipped: ${reason}`);
+    return { outcome: 'SKIPPED', status: `⛔ Auto-lay skipped (${reason}) - ${MANUAL_LAY_STATUS}` };
+  }
+}
@@ -0,0 +1,169 @@
+// Backtest - Replay recorded odds snapshots through the detection pipeline
+
+import { parseOddsResponse } from './oddsService.ts';
+import { DEFAULT_DETECTION_THRESHOLDS, detectArb, rankArbs } from './arbDetector.ts';
+import type { DetectionThresholds } from './arbDetector.ts';
+import { ArbEngine } from './arbEngine.ts';
+import { applyArbStake, resolveCommissionRate } from './pricing.ts';
+import { calculateGreyManStake } from './utils.ts';
+import type { OddsSnapshot } from './snapshotRecorder.ts';
+import type { ArbOpportunity } from './types.ts';
+
+// Net margin buckets for the distribution (lower bounds)
+const MARGIN_BUCKETS = [0, 0.01, 0.02, 0.03, 0.04, 0.05, 0.075, 0.1];
+
+export interface BacktestOptions {
+  thresholds: DetectionThresholds; // Detector floors (net margin, lay liquidity)
+  minProfitMargin: number; // ArbEngine validation floor
+  greyManMinStake: number;
+  greyManMaxStake: number;
+  commissionRate: number | null; // null = market base rate, as in live scans
+}
+
+export const DEFAULT_BACKTEST_OPTIONS: BacktestOptions = {
+  thresholds: DEFAULT_DETECTION_THRESHOLDS,
+  minProfitMargin: DEFAULT_DETECTION_THRESHOLDS.minNetMargin,
+  greyManMinStake: 280,
+  greyManMaxStake: 420,
+  commissionRate: null,
+};
+
+export interface BacktestBreakdown {
+  arbs: number;
+  stake: number; // Total back stake
+  profit: number; // Theoretical locked-in profit (worst outcome per arb)
+  avgNetMargin: number;
+}
+
+export interface BacktestReport {
+  snapshots: number;
+  scans: number; // Distinct (sport, scan time) pairs
+  events: number;
+  marketsPriced: number;
+  detected: number; // Opportunities out of detectArb
+  accepted: number; // Passed ArbEngine dedupe and validation
+  dedupeSuppressed: number; // Rejected as already processed within the dedupe window
+  rejected: Record<string, number>; // Validation failures by reason
+  marginDistribution: Array<{ bucket: string; arbs: number }>;
+  bySport: Record<string, BacktestBreakdown>;
+  byBookie: Record<string, BacktestBreakdown>;
+  totalStake: number;
+  totalProfit: number;
+  arbs: ArbOpportunity[]; // Accepted arbs in replay order
+}
+
+function bucketLabel(index: number): string {
+  const from = MARGIN_BUCKETS[index] * 100;
+  const to = MARGIN_BUCKETS[index + 1];
+  return to === undefined ? `${from}%+` : `${from}-${to * 100}%`;
+}
+
+function summarise(arbs: ArbOpportunity[]): BacktestBreakdown {
+  const stake = arbs.reduce((total, arb) => total + arb.suggestedStake, 0);
+  const profit = arbs.reduce(
+    (total, arb) => total + Math.min(arb.profitIfBackWins, arb.profitIfBackLoses),
+    0,
+  );
+  const margin = arbs.reduce((total, arb) => total + arb.netMargin, 0);
+  return {
+    arbs: arbs.length,
+    stake,
+    profit: Math.round(profit * 100) / 100,
+    avgNetMargin: arbs.length > 0 ? margin / arbs.length : 0,
+  };
+}
+
+function groupBy(arbs: ArbOpportunity[], key: (arb: ArbOpportunity) => string): Record<string, BacktestBreakdown> {
+  const groups = new Map<string, ArbOpportunity[]>();
+  for (const arb of arbs) {
+    const group = groups.get(key(arb)) ?? [];
+    group.push(arb);
+    groups.set(key(arb), group);
+  }
+  return Object.fromEntries([...groups].map(([name, group]) => [name, summarise(group)]));
+}
+
+/**
+ * Replay snapshots in time order: parseOddsResponse -> detectArb -> stake sizing -> ArbEngine
+ * Dedupe runs on recorded time in a throwaway in-memory KV, so the live bot's state is untouched.
+ * Grey Man stakes are random within the range, as in live scans, so profit varies slightly per run.
+ */
+export async function runBacktest(
+  snapshots: OddsSnapshot[],
+  options: BacktestOptions = DEFAULT_BACKTEST_OPTIONS,
+): Promise<BacktestReport> {
+  const ordered = [...snapshots].sort((a, b) => a.recordedAt - b.recordedAt);
+  const kv = await Deno.openKv(':memory:');
+  let clock = new Date(ordered[0]?.recordedAt ?? Date.now());
+  const arbEngine = new ArbEngine(kv, {
+    minProfitMargin: options.minProfitMargin,
+    now: () => clock,
+  });
+
+  const accepted: ArbOpportunity[] = [];
+  const rejected: Record<string, number> = {};
+  let detected = 0;
+  let dedupeSuppressed = 0;
+  let marketsPriced = 0;
+
+  try {
+    for (const snapshot of ordered) {
+      clock = new Date(snapshot.recordedAt);
+      const [game] = parseOddsResponse([snapshot.event]);
+      if (!game) continue;
+
+      const opportunities: ArbOpportunity[] = [];
+      for (const { oddsMarket, market } of snapshot.markets) {
+        marketsPriced++;
+        const commissionRate = resolveCommissionRate(options.commissionRate, market.marketBaseRate);
+        opportunities.push(
+          ...detectArb(game, market, commissionRate, {}, oddsMarket, options.thresholds),
+        );
+      }
+      detected += opportunities.length;
+
+      for (const arb of rankArbs(opportunities)) {
+        applyArbStake(arb, calculateGreyManStake(options.greyManMinStake, options.greyManMaxStake));
+        const result = await arbEngine.processArb(arb);
+
+        if (result.processed) {
+          accepted.push(arb);
+        } else if (result.reason === 'Already processed') {
+          dedupeSuppressed++;
+        } else {
+          // Group "below minimum" / "insufficient liquidity" reasons without their amounts
+          const reason = (result.reason ?? 'Unknown').split(':')[0].replace(/[\d.]+%/g, 'x%');
+          rejected[reason] = (rejected[reason] ?? 0) + 1;
+        }
+      }
+    }
+  } finally {
+    kv.close();
+  }
+
+  const marginDistribution = MARGIN_BUCKETS.map((_, i) => ({
+    bucket: bucketLabel(i),
+    arbs: accepted.filter((arb) =>
+      arb.netMargin >= MARGIN_BUCKETS[i] &&
+      (MARGIN_BUCKETS[i + 1] === undefined || arb.netMargin < MARGIN_BUCKETS[i + 1])
+    ).length,
+  }));
+
+  const total = summarise(accepted);
+  return {
+    snapshots: ordered.length,
+    scans: new Set(ordered.map((s) => `${s.sportKey}_${s.recordedAt}`)).size,
+    events: new Set(ordered.map((s) => s.eventId)).size,
+    marketsPriced,
+    detected,
+    accepted: accepted.length,
+    dedupeSuppressed,
+    rejected,
+    marginDistribution,
+    bySport: groupBy(accepted, (arb) => arb.sport),
+    byBookie: groupBy(accepted, (arb) => arb.bookie),
+    totalStake: total.stake,
+    totalProfit: total.profit,
+    arbs: accepted,
+  };
+}
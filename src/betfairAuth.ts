@@ -5,12 +5,23 @@ export class BetfairAuth {
   private appKey: string;
   private username: string;
   private password: string;
+  private onLoginFailed: ((error: Error) => void) | null;
 
-  constructor(kv: Deno.Kv, appKey: string, username: string, password: string) {
+  /**
+   * onLoginFailed is called before a failed login throws (e.g. to alert on it)
+   */
+  constructor(
+    kv: Deno.Kv,
+    appKey: string,
+    username: string,
+    password: string,
+    onLoginFailed: ((error: Error) => void) | null = null,
+  ) {
     this.kv = kv;
     this.appKey = appKey;
     this.username = username;
     this.password = password;
+    this.onLoginFailed = onLoginFailed;
   }
 
   async getSessionToken(): Promise<string> {
@@ -54,20 +65,34 @@ export class BetfairAuth {
     } catch (e) {
       // If parsing fails, it's likely HTML (Access Denied / Cloudflare)
       console.error("❌ Betfair API returned HTML/Invalid JSON. Preview:", text.substring(0, 100));
-      throw new Error(`Betfair API Error: Response was not JSON. Status: ${res.status}`);
+      throw this.loginFailed(new Error(`Betfair API Error: Response was not JSON. Status: ${res.status}`));
     }
 
     if (data.status !== "SUCCESS") {
-      throw new Error(`Betfair Login Failed: ${data.error} (Status: ${data.status})`);
+      throw this.loginFailed(new Error(`Betfair Login Failed: ${data.error} (Status: ${data.status})`));
     }
 
     // 5. Cache Token (4 Hours)
     const token = data.token;
     await this.kv.set(["betfair_session"], token, { expireIn: 14400 * 1000 });
+    await this.kv.set(["betfair_session_created"], Date.now(), { expireIn: 14400 * 1000 });
     
     return token;
   }
 
+  private loginFailed(error: Error): Error {
+    this.onLoginFailed?.(error);
+    return error;
+  }
+
+  /**
+   * Age of the cached session token in ms (null if there is none)
+   */
+  async getSessionAge(): Promise<number | null> {
+    const created = await this.kv.get<number>(["betfair_session_created"]);
+    return created.value === null ? null : Date.now() - created.value;
+  }
+
   /**
    * Handle INVALID_SESSION error by refreshing token
    */
@@ -5,28 +5,139 @@ import type {
   BetfairJsonRpcRequest,
   BetfairJsonRpcResponse,
   BetfairAccountFunds,
+  BetfairClearedOrder,
+  BetfairClearedOrderReport,
   BetfairPlaceOrderRequest,
   BetfairPlaceOrderResponse,
   BetfairInstruction,
+  BetfairMarketPrices,
+  BetfairPrice,
 } from './types.ts';
-import { calculateLayStake } from './utils.ts';
+import { calculateLiability } from './utils.ts';
+import { matchRunner, MIN_MATCH_CONFIDENCE, normalizeTeamName } from './entityResolution.ts';
 
 const BETFAIR_API_URL = 'https://api.betfair.com/exchange/betting/json-rpc/v1';
 const BETFAIR_ACCOUNT_URL = 'https://api.betfair.com/exchange/account/json-rpc/v1';
+const KICKOFF_TOLERANCE_MS = 60 * 60 * 1000; // Odds-API vs Betfair start times may differ by up to 1 hour
+const AMBIGUOUS_MARKET_GAP = 0.05; // Top two candidates closer than this are rejected
+const COMPETITION_CACHE_MS = 24 * 60 * 60 * 1000; // 1 day
+const MAX_REQUEST_WEIGHT = 200; // Betfair's per-request data weight limit
+
+/**
+ * listMarketBook weight per market for EX_BEST_OFFERS
+ * Base weight is 5; depth overrides scale it by requestedDepth / 3
+ */
+function marketBookWeight(ladderDepth: number): number {
+  return 5 * Math.max(1, ladderDepth / 3);
+}
 
 export interface LayBetResult {
   status: 'SUCCESS' | 'FAILED';
   betId?: string;
+  sizeMatched?: number; // Lay stake matched - less than requested on a partial fill
+  averagePriceMatched?: number;
   error?: string;
 }
 
+/**
+ * Identifies an Odds-API event to resolve on Betfair
+ */
+export interface MarketMatchQuery {
+  eventId: string; // Odds-API event id (cache key)
+  sportKey: string;
+  eventTypeId: string;
+  competitionName: string | null;
+  homeTeam: string;
+  awayTeam: string;
+  commenceTime: string; // ISO Date
+  marketTypeCode: string; // e.g. "MATCH_ODDS", "ASIAN_HANDICAP", "OVER_UNDER_25"
+  marketBettingTypes?: string[]; // Defaults to ['ODDS']
+  learnedAliases?: Record<string, string>;
+}
+
+/**
+ * Resolved Betfair market (cached per Odds-API event until kickoff)
+ */
+export interface MarketCatalogueEntry {
+  marketId: string;
+  marketName: string;
+  marketStartTime: string;
+  marketBaseRate?: number;
+  eventId?: string;
+  eventName?: string;
+  runners: Array<{
+    selectionId: number;
+    runnerName: string;
+    handicap?: number;
+  }>;
+}
+
+/**
+ * Raw listMarketCatalogue result (RUNNER_METADATA, MARKET_START_TIME, MARKET_DESCRIPTION, EVENT)
+ */
+interface CatalogueResult {
+  marketId: string;
+  marketName: string;
+  marketStartTime: string;
+  description?: {
+    marketBaseRate?: number;
+  };
+  event?: {
+    id: string;
+    name: string;
+  };
+  runners: Array<{
+    selectionId: number;
+    runnerName: string;
+    handicap?: number;
+  }>;
+}
+
+function toCatalogueEntry(result: CatalogueResult): MarketCatalogueEntry {
+  return {
+    marketId: result.marketId,
+    marketName: result.marketName,
+    marketStartTime: result.marketStartTime,
+    marketBaseRate: result.description?.marketBaseRate,
+    eventId: result.event?.id,
+    eventName: result.event?.name,
+    runners: result.runners,
+  };
+}
+
+/**
+ * Score a catalogue candidate against an Odds-API event
+ * Both teams must resolve to distinct runners; kickoff proximity breaks ties
+ */
+function scoreMarketCandidate(
+  candidate: { marketStartTime: string; runners: Array<{ runnerName: string }> },
+  query: MarketMatchQuery,
+  kickoff: number,
+): number | null {
+  const options = { sportKey: query.sportKey, learned: query.learnedAliases };
+  const home = matchRunner(query.homeTeam, candidate.runners, options);
+  const away = matchRunner(query.awayTeam, candidate.runners, options);
+
+  if (!home || !away || home.runner === away.runner) return null;
+  if (Math.min(home.confidence, away.confidence) < MIN_MATCH_CONFIDENCE) return null;
+
+  const kickoffDiff = Math.abs(new Date(candidate.marketStartTime).getTime() - kickoff);
+  if (kickoffDiff > KICKOFF_TOLERANCE_MS) return null;
+
+  const teamScore = (home.confidence + away.confidence) / 2;
+  const timeScore = 1 - kickoffDiff / KICKOFF_TOLERANCE_MS;
+  return teamScore * 0.8 + timeScore * 0.2;
+}
+
 export class BetfairService {
   private auth: BetfairAuth;
   private appKey: string;
+  private kv: Deno.Kv;
 
-  constructor(auth: BetfairAuth, appKey: string) {
+  constructor(auth: BetfairAuth, appKey: string, kv: Deno.Kv) {
     this.auth = auth;
     this.appKey = appKey;
+    this.kv = kv;
   }
 
   /**
@@ -92,59 +203,192 @@ export class BetfairService {
   }
 
   /**
-   * Find a market on Betfair by event type, text query, and market type
-   * Returns market with runners and prices, or null if not found
+   * Settled and voided bets on the given markets (pages through moreAvailable)
    */
-  async findMarket(params: {
-    eventTypeId: string;
-    textQuery: string;
-    marketTypeCode: string;
-  }): Promise<{
-    marketId: string;
-    runners: Array<{
-      selectionId: number;
-      runnerName: string;
-      ex?: {
-        availableToBack: Array<{ price: number; size: number }>;
-        availableToLay: Array<{ price: number; size: number }>;
-      };
-    }>;
-  } | null> {
-    try {
-      // Step 1: Search for markets using listMarketCatalogue
-      const catalogueResult = await this.makeRequest<
-        Array<{
-          marketId: string;
-          marketName: string;
-          runners: Array<{
-            selectionId: number;
-            runnerName: string;
-          }>;
-        }>
-      >(BETFAIR_API_URL, 'listMarketCatalogue', {
-        filter: {
-          eventTypeIds: [params.eventTypeId],
-          textQuery: params.textQuery,
-          marketTypeCodes: [params.marketTypeCode],
-          marketBettingTypes: ['ODDS'],
-          turnInPlayEnabled: false, // Only pre-match
-        },
-        maxResults: 1,
-        marketProjection: ['RUNNER_METADATA', 'MARKET_START_TIME'],
-      });
+  async listClearedOrders(marketIds: string[]): Promise<Array<BetfairClearedOrder & { voided: boolean }>> {
+    const orders: Array<BetfairClearedOrder & { voided: boolean }> = [];
+    for (const betStatus of ['SETTLED', 'VOIDED']) {
+      let fromRecord = 0;
+      while (true) {
+        const report = await this.makeRequest<BetfairClearedOrderReport>(
+          BETFAIR_API_URL,
+          'listClearedOrders',
+          { betStatus, marketIds, fromRecord, recordCount: 1000 },
+        );
+        orders.push(...report.clearedOrders.map((order) => ({ ...order, voided: betStatus === 'VOIDED' })));
+        if (!report.moreAvailable || report.clearedOrders.length === 0) break;
+        fromRecord += report.clearedOrders.length;
+      }
+    }
+    return orders;
+  }
 
-      if (!catalogueResult || catalogueResult.length === 0) {
-        return null;
+  /**
+   * Resolve Betfair competition IDs for a competition name (e.g. "English Premier League")
+   * Matches every competition whose name contains all the query's words; cached in KV for a day
+   */
+  async findCompetitionIds(eventTypeId: string, competitionName: string): Promise<string[]> {
+    const cacheKey = ['betfair_competitions', eventTypeId, competitionName];
+    const cached = await this.kv.get<string[]>(cacheKey);
+    if (cached.value) {
+      return cached.value;
+    }
+
+    const competitions = await this.makeRequest<
+      Array<{ competition: { id: string; name: string } }>
+    >(BETFAIR_API_URL, 'listCompetitions', {
+      filter: { eventTypeIds: [eventTypeId] },
+    });
+
+    const queryTokens = normalizeTeamName(competitionName).split(' ');
+    const ids = competitions
+      .filter(({ competition }) => {
+        const nameTokens = normalizeTeamName(competition.name).split(' ');
+        return queryTokens.every((token) => nameTokens.includes(token));
+      })
+      .map(({ competition }) => competition.id);
+
+    await this.kv.set(cacheKey, ids, { expireIn: COMPETITION_CACHE_MS });
+    return ids;
+  }
+
+  /**
+   * Resolve the Betfair market for an Odds-API event
+   * Match Odds: pulls candidate markets for the competition around kickoff, scores them by team
+   * names and start time, and rejects ambiguous results. Other market types (handicap, totals)
+   * are looked up within the Betfair event resolved via Match Odds.
+   * The mapping is cached in KV until kickoff.
+   */
+  async resolveMarket(query: MarketMatchQuery): Promise<MarketCatalogueEntry | null> {
+    const cacheKey = ['betfair_market_map', query.eventId, query.marketTypeCode];
+    const cached = await this.kv.get<MarketCatalogueEntry>(cacheKey);
+    if (cached.value) {
+      return cached.value;
+    }
+
+    if (query.marketTypeCode !== 'MATCH_ODDS') {
+      return await this.resolveEventMarket(query, cacheKey);
+    }
+
+    const kickoff = new Date(query.commenceTime).getTime();
+    const filter: Record<string, unknown> = {
+      eventTypeIds: [query.eventTypeId],
+      marketTypeCodes: [query.marketTypeCode],
+      marketBettingTypes: query.marketBettingTypes ?? ['ODDS'],
+      turnInPlayEnabled: false, // Only pre-match
+      marketStartTime: {
+        from: new Date(kickoff - KICKOFF_TOLERANCE_MS).toISOString(),
+        to: new Date(kickoff + KICKOFF_TOLERANCE_MS).toISOString(),
+      },
+    };
+
+    if (query.competitionName) {
+      const competitionIds = await this.findCompetitionIds(query.eventTypeId, query.competitionName);
+      if (competitionIds.length > 0) {
+        filter.competitionIds = competitionIds;
       }
+    }
 
-      const marketSummary = catalogueResult[0];
+    const candidates = await this.makeRequest<CatalogueResult[]>(BETFAIR_API_URL, 'listMarketCatalogue', {
+      filter,
+      maxResults: 100,
+      marketProjection: ['RUNNER_METADATA', 'MARKET_START_TIME', 'MARKET_DESCRIPTION', 'EVENT'],
+    });
 
-      // Step 2: Get real-time prices using listMarketBook
-      const pricesResult = await this.makeRequest<
+    const scored = candidates
+      .map((candidate) => ({ candidate, score: scoreMarketCandidate(candidate, query, kickoff) }))
+      .filter((entry): entry is { candidate: CatalogueResult; score: number } =>
+        entry.score !== null
+      )
+      .sort((a, b) => b.score - a.score);
+
+    const [best, second] = scored;
+    if (!best) {
+      return null;
+    }
+    if (second && best.score - second.score < AMBIGUOUS_MARKET_GAP) {
+      console.log(
+        `Ambiguous Betfair match for ${query.homeTeam} vs ${query.awayTeam}: ` +
+          `${best.candidate.event?.name} / ${second.candidate.event?.name}`,
+      );
+      return null;
+    }
+
+    return await this.cacheMarket(cacheKey, toCatalogueEntry(best.candidate));
+  }
+
+  /**
+   * Resolve a non-Match-Odds market (handicap, totals) within the Betfair event found via Match Odds
+   */
+  private async resolveEventMarket(
+    query: MarketMatchQuery,
+    cacheKey: Deno.KvKey,
+  ): Promise<MarketCatalogueEntry | null> {
+    const matchOdds = await this.resolveMarket({
+      ...query,
+      marketTypeCode: 'MATCH_ODDS',
+      marketBettingTypes: ['ODDS'],
+    });
+    if (!matchOdds?.eventId) {
+      return null;
+    }
+
+    const candidates = await this.makeRequest<CatalogueResult[]>(BETFAIR_API_URL, 'listMarketCatalogue', {
+      filter: {
+        eventIds: [matchOdds.eventId],
+        marketTypeCodes: [query.marketTypeCode],
+        marketBettingTypes: query.marketBettingTypes ?? ['ODDS'],
+        turnInPlayEnabled: false, // Only pre-match
+      },
+      maxResults: 1,
+      marketProjection: ['RUNNER_METADATA', 'MARKET_START_TIME', 'MARKET_DESCRIPTION', 'EVENT'],
+    });
+
+    if (!candidates || candidates.length === 0) {
+      return null;
+    }
+
+    return await this.cacheMarket(cacheKey, toCatalogueEntry(candidates[0]));
+  }
+
+  /**
+   * Cache a resolved market until kickoff - later scans skip the catalogue lookup entirely
+   */
+  private async cacheMarket(
+    cacheKey: Deno.KvKey,
+    entry: MarketCatalogueEntry,
+  ): Promise<MarketCatalogueEntry> {
+    const expireIn = new Date(entry.marketStartTime).getTime() - Date.now();
+    if (expireIn > 0) {
+      await this.kv.set(cacheKey, entry, { expireIn });
+    }
+    return entry;
+  }
+
+  /**
+   * Fetch prices for many resolved markets with batched listMarketBook calls
+   * Batches stay within Betfair's request weight limit; all batches are sent together so the
+   * result is one consistent snapshot. Returns marketId -> market with runner names and ladders.
+   */
+  async getMarketBooks(
+    markets: MarketCatalogueEntry[],
+    ladderDepth = 5,
+  ): Promise<Map<string, BetfairMarketPrices>> {
+    const batchSize = Math.max(1, Math.floor(MAX_REQUEST_WEIGHT / marketBookWeight(ladderDepth)));
+    const unique = [...new Map(markets.map((m) => [m.marketId, m])).values()];
+
+    const batches: MarketCatalogueEntry[][] = [];
+    for (let i = 0; i < unique.length; i += batchSize) {
+      batches.push(unique.slice(i, i + batchSize));
+    }
+
+    const results = await Promise.all(batches.map((batch) =>
+      this.makeRequest<
         Array<{
           marketId: string;
           runners: Array<{
             selectionId: number;
+            handicap?: number;
             ex?: {
               availableToBack: Array<{ price: number; size: number }>;
               availableToLay: Array<{ price: number; size: number }>;
@@ -152,21 +396,23 @@ export class BetfairService {
           }>;
         }>
       >(BETFAIR_API_URL, 'listMarketBook', {
-        marketIds: [marketSummary.marketId],
+        marketIds: batch.map((m) => m.marketId),
         priceProjection: {
           priceData: ['EX_BEST_OFFERS'],
-          exBestOffersOverrides: { bestPricesDepth: 1 },
+          exBestOffersOverrides: { bestPricesDepth: ladderDepth },
         },
-      });
+      })
+    ));
 
-      if (!pricesResult || pricesResult.length === 0) {
-        return null;
-      }
+    // Merge catalogue data (names) with price data (odds)
+    const books = new Map<string, BetfairMarketPrices>();
+    for (const priceData of results.flat()) {
+      const marketSummary = unique.find((m) => m.marketId === priceData.marketId);
+      if (!marketSummary) continue;
 
-      // Step 3: Merge catalogue data (names) with price data (odds)
-      const priceData = pricesResult[0];
-      return {
+      books.set(priceData.marketId, {
         marketId: marketSummary.marketId,
+        marketBaseRate: marketSummary.marketBaseRate,
         runners: priceData.runners.map((r) => {
           const runnerInfo = marketSummary.runners.find(
             (meta) => meta.selectionId === r.selectionId,
@@ -174,45 +420,116 @@ export class BetfairService {
           return {
             selectionId: r.selectionId,
             runnerName: runnerInfo ? runnerInfo.runnerName : 'Unknown',
+            handicap: r.handicap,
             ex: r.ex,
           };
         }),
-      };
-    } catch (error) {
+      });
+    }
+
+    return books;
+  }
+
+  /**
+   * Find the Betfair market for an Odds-API event and fetch its prices
+   * Returns market with runners, handicaps and prices (ladderDepth levels, default 5), or null if not found
+   */
+  async findMarket(
+    params: MarketMatchQuery & { ladderDepth?: number },
+  ): Promise<BetfairMarketPrices | null> {
+    try {
+      // Step 1: Resolve the market (cached mapping, or scored catalogue candidates)
+      const marketSummary = await this.resolveMarket(params);
+
+      if (!marketSummary) {
+        return null;
+      }
+
+      // Step 2: Get real-time prices using listMarketBook
+      const books = await this.getMarketBooks([marketSummary], params.ladderDepth);
+      return books.get(marketSummary.marketId) ?? null;
+    } catch (_error) {
       // Return null on error instead of throwing
       return null;
     }
   }
 
   /**
-   * Place a lay bet on Betfair
+   * Fetch a runner's current lay ladder (EX_BEST_OFFERS)
+   * Returns null if the market is no longer open pre-match or the runner isn't active
+   */
+  async getLayLadder(
+    marketId: string,
+    selectionId: number,
+    handicap: number | undefined,
+    ladderDepth = 5,
+  ): Promise<BetfairPrice[] | null> {
+    const [book] = await this.makeRequest<
+      Array<{
+        marketId: string;
+        status: string;
+        inplay: boolean;
+        runners: Array<{
+          selectionId: number;
+          handicap?: number;
+          status: string;
+          ex?: { availableToLay: BetfairPrice[] };
+        }>;
+      }>
+    >(BETFAIR_API_URL, 'listMarketBook', {
+      marketIds: [marketId],
+      priceProjection: {
+        priceData: ['EX_BEST_OFFERS'],
+        exBestOffersOverrides: { bestPricesDepth: ladderDepth },
+      },
+    });
+
+    if (!book || book.status !== 'OPEN' || book.inplay) {
+      return null;
+    }
+    const runner = book.runners.find((r) =>
+      r.selectionId === selectionId && (handicap === undefined || (r.handicap ?? 0) === handicap)
+    );
+    if (!runner || runner.status !== 'ACTIVE') {
+      return null;
+    }
+    return runner.ex?.availableToLay ?? [];
+  }
+
+  /**
+   * Place a fill-or-kill lay bet on Betfair
+   * Without minFillSize it matches all of layStake at layPrice or better, or nothing. With it,
+   * it matches what it can (at least minFillSize) and cancels the rest, so sizeMatched may be
+   * less than layStake (partial fill). Either way sizeMatched may be zero.
    */
   async placeLayBet(
     marketId: string,
     selectionId: number,
-    liabilityNeeded: number,
-    layOdds: number,
+    layStake: number,
+    layPrice: number,
+    handicap?: number,
+    minFillSize?: number,
   ): Promise<LayBetResult> {
     try {
-      // Calculate lay stake
-      const layStake = calculateLayStake(liabilityNeeded, layOdds);
-
-      // Check account balance
+      // Check account balance covers the worst-case liability
+      const liability = calculateLiability(layStake, layPrice);
       const funds = await this.getAccountFunds();
-      if (funds.availableToBetBalance < liabilityNeeded) {
+      if (funds.availableToBetBalance < liability) {
         return {
           status: 'FAILED',
-          error: `Insufficient balance: need $${liabilityNeeded.toFixed(2)}, have $${funds.availableToBetBalance.toFixed(2)}`,
+          error: `Insufficient balance: need $${liability.toFixed(2)}, have $${funds.availableToBetBalance.toFixed(2)}`,
         };
       }
 
       // Build instruction
       const instruction: BetfairInstruction = {
         selectionId,
+        ...(handicap !== undefined ? { handicap } : {}),
         limitOrder: {
           size: layStake,
-          price: layOdds,
-          persistenceType: 'LAPSE',
+          price: layPrice,
+          timeInForce: 'FILL_OR_KILL',
+          ...(minFillSize !== undefined ? { minFillSize } : {}),
         },
         orderType: 'LIMIT',
         side: 'LAY',
@@ -235,6 +552,8 @@ export class BetfairService {
           return {
             status: 'SUCCESS',
             betId: report.betId,
+            sizeMatched: report.sizeMatched ?? 0,
+            averagePriceMatched: report.averagePriceMatched,
           };
         } else {
           return {
@@ -256,4 +575,3 @@ export class BetfairService {
     }
   }
 }
-
@@ -0,0 +1,85 @@
+// Betfair Stream tests - the stream client against the local fake server (no Betfair connection)
+
+import { BetfairAuth } from './betfairAuth.ts';
+import { BetfairStreamClient } from './betfairStream.ts';
+import { FakeStreamServer } from './fakeStreamServer.ts';
+
+const MARKET_ID = '1.234567890';
+const SELECTION_ID = 12345;
+const HEARTBEAT_MS = 200;
+
+const entry = {
+  marketId: MARKET_ID,
+  marketName: 'Match Odds',
+  marketStartTime: new Date().toISOString(),
+  runners: [{ selectionId: SELECTION_ID, runnerName: 'Lakers' }],
+};
+
+function bestLay(client: BetfairStreamClient): number | undefined {
+  return client.getMarketPrices([entry]).get(MARKET_ID)?.runners[0]?.ex?.availableToLay[0]?.price;
+}
+
+/**
+ * Poll the cache until the best lay reaches the price (the client reconnects after a 1s backoff)
+ */
+async function waitForBestLay(client: BetfairStreamClient, price: number): Promise<void> {
+  for (let i = 0; i < 50 && bestLay(client) !== price; i++) {
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+  if (bestLay(client) !== price) {
+    throw new Error(`Expected best lay ${price}, cache has ${bestLay(client)}`);
+  }
+}
+
+Deno.test('stream client resumes from initialClk/clk after a dropped connection', async () => {
+  const server = new FakeStreamServer({ sessionToken: 'fake-session', heartbeatMs: HEARTBEAT_MS });
+  const kv = await Deno.openKv(':memory:');
+  let client: BetfairStreamClient | null = null;
+  try {
+    const port = server.start();
+    server.setMarket({
+      id: MARKET_ID,
+      marketDefinition: {
+        status: 'OPEN',
+        inPlay: false,
+        marketBaseRate: 5,
+        runners: [{ id: SELECTION_ID, status: 'ACTIVE' }],
+      },
+      rc: [{ id: SELECTION_ID, batl: [[0, 2.30, 1100], [1, 2.32, 600]] }],
+    });
+
+    // Cached session - no Betfair login needed
+    await kv.set(['betfair_session'], 'fake-session');
+    client = new BetfairStreamClient(new BetfairAuth(kv, 'fake-app-key', '', ''), 'fake-app-key', {
+      url: `tcp://127.0.0.1:${port}`,
+      ladderDepth: 3,
+      heartbeatMs: HEARTBEAT_MS,
+    });
+    await client.subscribe([MARKET_ID]);
+    client.start();
+    await waitForBestLay(client, 2.30);
+
+    server.publish({ id: MARKET_ID, rc: [{ id: SELECTION_ID, batl: [[0, 2.26, 500]] }] });
+    await waitForBestLay(client, 2.26);
+
+    // Drop the socket and move the price while disconnected - the reconnect must resume and replay it
+    server.dropConnections();
+    server.publish({ id: MARKET_ID, rc: [{ id: SELECTION_ID, batl: [[0, 2.24, 450]] }] });
+    await waitForBestLay(client, 2.24);
+
+    const [first, resumed] = server.subscriptionRequests;
+    if (first?.clk !== undefined || first?.initialClk !== undefined) {
+      throw new Error(`First subscription should ask for a full image, sent clk ${first?.clk}`);
+    }
+    if (resumed?.initialClk !== '0' || resumed?.clk !== '1') {
+      throw new Error(`Resubscription should send initialClk 0 / clk 1, sent ${resumed?.initialClk} / ${resumed?.clk}`);
+    }
+    if (!client.isLive()) {
+      throw new Error('Stream should be live after resuming');
+    }
+  } finally {
+    client?.stop();
+    server.close();
+    kv.close();
+  }
+});
@@ -0,0 +1,259 @@
+// Betfair Stream - Exchange Stream API (ESA) client feeding the in-memory market cache
+
+import type { BetfairAuth } from './betfairAuth.ts';
+import { MarketCache } from './marketCache.ts';
+import type { MarketCatalogueEntry } from './betfairService.ts';
+import type {
+  BetfairMarketPrices,
+  StreamMarketChangeMessage,
+  StreamMessage,
+  StreamStatusMessage,
+} from './types.ts';
+
+const DEFAULT_HEARTBEAT_MS = 5000;
+const MISSED_HEARTBEATS = 3; // Silence for this many heartbeats = dead connection
+const MAX_RECONNECT_DELAY_MS = 30000;
+const SESSION_ERRORS = ['NO_SESSION', 'INVALID_SESSION_INFORMATION', 'NOT_AUTHORIZED'];
+
+export interface StreamClientOptions {
+  url: string; // "tls://stream-api.betfair.com:443", or "tcp://localhost:9443" for the fake server
+  ladderDepth: number; // Best-offer levels per side (1-10)
+  heartbeatMs?: number;
+}
+
+export class BetfairStreamClient {
+  private auth: BetfairAuth;
+  private appKey: string;
+  private options: StreamClientOptions;
+  private cache = new MarketCache();
+  private marketIds = new Set<string>();
+  private conn: Deno.Conn | null = null;
+  private writer: WritableStreamDefaultWriter<Uint8Array> | null = null;
+  private messageId = 0;
+  private authenticated = false;
+  private subscriptionId: number | null = null;
+  private initialClk: string | null = null;
+  private clk: string | null = null;
+  private lastMessageAt = 0;
+  private stopped = true;
+
+  constructor(auth: BetfairAuth, appKey: string, options: StreamClientOptions) {
+    this.auth = auth;
+    this.appKey = appKey;
+    this.options = options;
+  }
+
+  /**
+   * Connect and keep the stream alive until stop() - reconnects with exponential backoff
+   * and resumes from the last clk so missed changes arrive as a RESUB_DELTA
+   */
+  start(): void {
+    if (!this.stopped) return;
+    this.stopped = false;
+    this.run();
+  }
+
+  stop(): void {
+    this.stopped = true;
+    this.closeConnection();
+  }
+
+  /**
+   * Add markets to the subscription (mapped markets from each scan)
+   * A changed market set replaces the subscription; cached markets keep their ladders until re-imaged
+   */
+  async subscribe(marketIds: string[]): Promise<void> {
+    const added = marketIds.filter((id) => !this.marketIds.has(id));
+    if (added.length === 0) return;
+
+    for (const id of added) this.marketIds.add(id);
+    // New market set - old clk tokens belong to the previous subscription
+    this.initialClk = null;
+    this.clk = null;
+    if (this.authenticated) {
+      await this.sendSubscription();
+    }
+  }
+
+  /**
+   * True while subscribed and hearing from Betfair (data or heartbeats) within the timeout
+   */
+  isLive(): boolean {
+    return this.subscriptionId !== null &&
+      Date.now() - this.lastMessageAt < this.heartbeatMs() * MISSED_HEARTBEATS;
+  }
+
+  /**
+   * Cached prices for resolved markets - markets not (yet) in the cache are left out
+   */
+  getMarketPrices(markets: MarketCatalogueEntry[]): Map<string, BetfairMarketPrices> {
+    const books = new Map<string, BetfairMarketPrices>();
+    if (!this.isLive()) return books;
+
+    for (const market of markets) {
+      const prices = this.cache.getPrices(market);
+      if (prices) books.set(market.marketId, prices);
+    }
+    return books;
+  }
+
+  private heartbeatMs(): number {
+    return this.options.heartbeatMs ?? DEFAULT_HEARTBEAT_MS;
+  }
+
+  private async run(): Promise<void> {
+    let attempts = 0;
+    while (!this.stopped) {
+      try {
+        await this.runConnection(() => {
+          attempts = 0; // Authenticated - reset backoff
+        });
+      } catch (error) {
+        if (!this.stopped) {
+          console.error('Betfair stream error:', error instanceof Error ? error.message : error);
+        }
+      }
+      this.authenticated = false;
+      this.subscriptionId = null;
+      this.conn = null;
+      this.writer = null;
+      if (this.stopped) break;
+
+      const delay = Math.min(MAX_RECONNECT_DELAY_MS, 1000 * 2 ** attempts);
+      attempts++;
+      console.log(`🔌 Betfair stream disconnected - reconnecting in ${delay / 1000}s`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
+  /**
+   * One connection: connect -> authenticate -> subscribe -> read until closed
+   */
+  private async runConnection(onAuthenticated: () => void): Promise<void> {
+    const url = new URL(this.options.url);
+    const hostname = url.hostname;
+    const port = parseInt(url.port || '443', 10);
+    this.conn = url.protocol === 'tcp:'
+      ? await Deno.connect({ hostname, port })
+      : await Deno.connectTls({ hostname, port });
+    this.writer = this.conn.writable.getWriter();
+    this.lastMessageAt = Date.now();
+
+    // Watchdog - close the socket if heartbeats stop, which ends the read loop
+    const watchdog = setInterval(() => {
+      if (Date.now() - this.lastMessageAt > this.heartbeatMs() * MISSED_HEARTBEATS) {
+        console.log('Betfair stream heartbeat missed');
+        this.closeConnection();
+      }
+    }, this.heartbeatMs());
+
+    let authId: number | null = null;
+    try {
+      for await (const message of this.readMessages(this.conn)) {
+        this.lastMessageAt = Date.now();
+
+        if (message.op === 'connection') {
+          authId = ++this.messageId;
+          await this.send({
+            op: 'authentication',
+            id: authId,
+            appKey: this.appKey,
+            session: await this.auth.getSessionToken(),
+          });
+        } else if (message.op === 'status') {
+          if (message.statusCode === 'FAILURE') {
+            await this.handleFailure(message);
+            return;
+          }
+          if (message.id === authId) {
+            console.log('✅ Betfair stream authenticated');
+            this.authenticated = true;
+            onAuthenticated();
+            if (this.marketIds.size > 0) await this.sendSubscription();
+          }
+        } else if (message.op === 'mcm') {
+          this.handleMarketChange(message);
+        }
+      }
+    } finally {
+      clearInterval(watchdog);
+      this.closeConnection();
+    }
+  }
+
+  /**
+   * Split the socket into CRLF-delimited JSON messages
+   */
+  private async *readMessages(conn: Deno.Conn): AsyncGenerator<StreamMessage> {
+    let buffer = '';
+    for await (const chunk of conn.readable.pipeThrough(new TextDecoderStream())) {
+      buffer += chunk;
+      let newline = buffer.indexOf('\r\n');
+      while (newline !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        if (line.trim()) yield JSON.parse(line) as StreamMessage;
+        newline = buffer.indexOf('\r\n');
+      }
+    }
+  }
+
+  private async send(message: Record<string, unknown>): Promise<void> {
+    await this.writer?.write(new TextEncoder().encode(JSON.stringify(message) + '\r\n'));
+  }
+
+  private async sendSubscription(): Promise<void> {
+    // Set before writing - the image can arrive before the write resolves
+    this.subscriptionId = ++this.messageId;
+    await this.send({
+      op: 'marketSubscription',
+      id: this.subscriptionId,
+      marketFilter: { marketIds: [...this.marketIds] },
+      marketDataFilter: {
+        fields: ['EX_BEST_OFFERS', 'EX_MARKET_DEF'],
+        ladderLevels: this.options.ladderDepth,
+      },
+      heartbeatMs: this.heartbeatMs(),
+      // Resume tokens - Betfair replays what we missed instead of a full image
+      ...(this.initialClk && this.clk ? { initialClk: this.initialClk, clk: this.clk } : {}),
+    });
+  }
+
+  private handleMarketChange(message: StreamMarketChangeMessage): void {
+    // Ignore stragglers from a replaced subscription
+    if (message.id !== undefined && message.id !== this.subscriptionId) return;
+
+    if (message.initialClk) this.initialClk = message.initialClk;
+    if (message.clk) this.clk = message.clk;
+    if (message.ct === 'HEARTBEAT') return;
+
+    if (message.ct === 'SUB_IMAGE') {
+      console.log(`📡 Betfair stream image: ${message.mc?.length ?? 0} markets`);
+    }
+
+    for (const change of message.mc ?? []) {
+      this.cache.applyMarketChange(change, message.pt);
+      if (change.marketDefinition?.status === 'CLOSED') {
+        this.marketIds.delete(change.id);
+      }
+    }
+  }
+
+  /**
+   * Stream FAILURE status - refresh the session on auth errors, then let run() reconnect
+   */
+  private async handleFailure(message: StreamStatusMessage): Promise<void> {
+    console.error(`Betfair stream failure: ${message.errorCode} ${message.errorMessage ?? ''}`);
+    if (message.errorCode && SESSION_ERRORS.includes(message.errorCode)) {
+      await this.auth.refreshSession();
+    }
+  }
+
+  private closeConnection(): void {
+    try {
+      this.conn?.close();
+    } catch {
+      // Already closed
+    }
+  }
+}
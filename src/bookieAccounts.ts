@@ -0,0 +1,184 @@
+// Bookie Accounts - Per-bookmaker balance, stake restriction and status, used to size and filter arbs
+
+import { roundDownGreyManStake } from './utils.ts';
+import { escapeHtml } from './telegramBot.ts';
+import type { TelegramBot } from './telegramBot.ts';
+
+export const MIN_BACK_STAKE = 5; // Below this an account can't usefully take a bet
+
+export type BookieAccountStatus = 'active' | 'limited' | 'banned';
+
+const STATUSES: BookieAccountStatus[] = ['active', 'limited', 'banned'];
+
+/**
+ * One bookmaker account, under ['bookie_account', normalised bookie name]
+ * Bookies without an account record are treated as active with no limits.
+ */
+export interface BookieAccount {
+  bookie: string; // Odds-API title, e.g. "Sportsbet"
+  status: BookieAccountStatus;
+  balance?: number; // Unset - balance not tracked
+  maxStake?: number; // Max stake the bookie accepts on one bet (limited accounts)
+  updatedAt: string; // ISO Date
+}
+
+export type BookieAccountPatch = Partial<Pick<BookieAccount, 'status' | 'balance' | 'maxStake'>>;
+
+/**
+ * Account lookups by bookie title ("Sportsbet" and "sportsbet" are the same account)
+ */
+export type BookieAccountMap = Map<string, BookieAccount>;
+
+export function normaliseBookie(bookie: string): string {
+  return bookie.trim().toLowerCase();
+}
+
+/**
+ * Largest stake the account can take right now - the lower of balance and max stake
+ */
+export function availableStake(account: BookieAccount | undefined): number {
+  if (!account || account.status === 'banned') {
+    return account ? 0 : Infinity;
+  }
+  return Math.min(account.balance ?? Infinity, account.maxStake ?? Infinity);
+}
+
+/**
+ * Whether arbs at this bookie are worth detecting (not banned, and room for a minimum stake)
+ */
+export function isBookieUsable(account: BookieAccount | undefined): boolean {
+  return availableStake(account) >= MIN_BACK_STAKE;
+}
+
+/**
+ * Shrink a stake to what the account can take, keeping it a Grey Man amount
+ */
+export function clampStakeToAccount(stake: number, account: BookieAccount | undefined): number {
+  const available = availableStake(account);
+  return stake <= available ? stake : roundDownGreyManStake(available);
+}
+
+export class BookieAccountStore {
+  private kv: Deno.Kv;
+
+  constructor(kv: Deno.Kv) {
+    this.kv = kv;
+  }
+
+  async get(bookie: string): Promise<BookieAccount | null> {
+    return (await this.kv.get<BookieAccount>(['bookie_account', normaliseBookie(bookie)])).value;
+  }
+
+  /**
+   * Every account, keyed by normalised bookie name
+   */
+  async loadAll(): Promise<BookieAccountMap> {
+    const accounts: BookieAccountMap = new Map();
+    for await (const entry of this.kv.list<BookieAccount>({ prefix: ['bookie_account'] })) {
+      accounts.set(normaliseBookie(entry.value.bookie), entry.value);
+    }
+    return accounts;
+  }
+
+  /**
+   * Create or change an account - new accounts start active
+   */
+  async update(bookie: string, patch: BookieAccountPatch): Promise<BookieAccount> {
+    const existing = await this.get(bookie);
+    const account: BookieAccount = {
+      ...(existing ?? { bookie: bookie.trim(), status: 'active' }),
+      ...patch,
+      updatedAt: new Date().toISOString(),
+    };
+    // undefined clears a field (e.g. a lifted stake restriction)
+    if (account.balance === undefined) delete account.balance;
+    if (account.maxStake === undefined) delete account.maxStake;
+
+    await this.kv.set(['bookie_account', normaliseBookie(bookie)], account);
+    return account;
+  }
+
+  async remove(bookie: string): Promise<void> {
+    await this.kv.delete(['bookie_account', normaliseBookie(bookie)]);
+  }
+
+  /**
+   * Move a tracked balance by amount (negative when a bet is placed, the return when it settles)
+   * No-op for bookies without an account or a tracked balance. Returns the new balance.
+   */
+  async adjustBalance(bookie: string, amount: number): Promise<number | null> {
+    const delta = Math.round(amount * 100) / 100;
+    if (delta === 0) return null;
+    const key = ['bookie_account', normaliseBookie(bookie)];
+
+    // Retry on conflict - a settle and a placed bet can land together
+    while (true) {
+      const entry = await this.kv.get<BookieAccount>(key);
+      if (entry.value?.balance === undefined) return null;
+
+      const balance = Math.round((entry.value.balance + delta) * 100) / 100;
+      const result = await this.kv.atomic()
+        .check(entry)
+        .set(key, { ...entry.value, balance, updatedAt: new Date().toISOString() })
+        .commit();
+      if (result.ok) {
+        console.log(`🏦 ${entry.value.bookie} balance ${delta > 0 ? '+' : ''}${delta.toFixed(2)} -> $${balance.toFixed(2)}`);
+        return balance;
+      }
+    }
+  }
+}
+
+function formatAccount(account: BookieAccount): string {
+  const icon = account.status === 'active' ? '✅' : account.status === 'limited' ? '⚠️' : '⛔';
+  const balance = account.balance !== undefined ? `$${account.balance.toFixed(2)}` : 'balance not tracked';
+  const maxStake = account.maxStake !== undefined ? `, max stake $${account.maxStake}` : '';
+  return `${icon} ${escapeHtml(account.bookie)} - ${account.status}, ${balance}${maxStake}`;
+}
+
+/**
+ * /accounts and /account
+ */
+export function registerBookieAccountCommands(bot: TelegramBot, accounts: BookieAccountStore): void {
+  bot.onCommand('accounts', 'Bookie accounts: status, balance, max stake', async () => {
+    const all = [...(await accounts.loadAll()).values()].sort((a, b) => a.bookie.localeCompare(b.bookie));
+    if (all.length === 0) {
+      return 'No bookie accounts set - every bookie is treated as active with no limits';
+    }
+    return `<b>Bookie accounts</b>\n${all.map(formatAccount).join('\n')}`;
+  });
+
+  const usage = 'Usage: /account &lt;bookie&gt; balance 850 | maxstake 40 | maxstake none | ' +
+    'status active|limited|banned | remove';
+
+  bot.onCommand('account', 'Set a bookie account, e.g. /account Sportsbet balance 850', async (args) => {
+    // Bookie titles can contain spaces ("PointsBet (AU)") - the field and value are the last two args
+    if (args.at(-1)?.toLowerCase() === 'remove' && args.length >= 2) {
+      const bookie = args.slice(0, -1).join(' ');
+      await accounts.remove(bookie);
+      return `🏦 Removed ${escapeHtml(bookie)} - treated as active with no limits`;
+    }
+    if (args.length < 3) {
+      return usage;
+    }
+
+    const bookie = args.slice(0, -2).join(' ');
+    const field = args.at(-2)?.toLowerCase();
+    const value = (args.at(-1) as string).toLowerCase().replace('$', '');
+
+    let patch: BookieAccountPatch;
+    if (field === 'balance' && parseFloat(value) >= 0) {
+      patch = { balance: parseFloat(value) };
+    } else if (field === 'maxstake' && (value === 'none' || parseFloat(value) > 0)) {
+      patch = { maxStake: value === 'none' ? undefined : parseFloat(value) };
+    } else if (field === 'status' && STATUSES.includes(value as BookieAccountStatus)) {
+      patch = { status: value as BookieAccountStatus };
+    } else {
+      return usage;
+    }
+
+    const account = await accounts.update(bookie, patch);
+    console.log(`🏦 ${account.bookie} account updated via Telegram`);
+    return formatAccount(account);
+  });
+}
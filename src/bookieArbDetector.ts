@@ -0,0 +1,129 @@
+// Bookie-vs-Bookie Arbitrage Detection - back every outcome at the best-priced bookie
+
+import type { BookieArbLeg, BookieArbOpportunity } from './types.ts';
+import { impliedProbability } from './pricing.ts';
+import { formatSelection } from './marketMapping.ts';
+
+interface ParsedGame {
+  eventId: string;
+  sport: string;
+  homeTeam: string;
+  awayTeam: string;
+  commenceTime: string;
+  bookmakers: Array<{
+    bookie: string;
+    bookieKey: string;
+    market: string;
+    outcome: string;
+    odds: number;
+    point?: number;
+  }>;
+}
+
+/**
+ * The outcome sets that together cover every result of a market
+ * h2h: home/away (+ draw when any bookie prices it), totals: over/under at the same point,
+ * spreads: home at a point and away at the opposite point
+ */
+function outcomeSets(
+  game: ParsedGame,
+): Array<{ market: string; point?: number; outcomes: Array<{ outcome: string; point?: number }> }> {
+  const sets: Array<{ market: string; point?: number; outcomes: Array<{ outcome: string; point?: number }> }> = [];
+
+  const h2h = game.bookmakers.filter((bm) => bm.market === 'h2h');
+  if (h2h.length > 0) {
+    const outcomes: Array<{ outcome: string; point?: number }> = [
+      { outcome: game.homeTeam },
+      { outcome: game.awayTeam },
+    ];
+    if (h2h.some((bm) => bm.outcome === 'Draw')) {
+      outcomes.push({ outcome: 'Draw' });
+    }
+    sets.push({ market: 'h2h', outcomes });
+  }
+
+  const totalPoints = new Set(
+    game.bookmakers.filter((bm) => bm.market === 'totals' && bm.point !== undefined)
+      .map((bm) => bm.point as number),
+  );
+  for (const point of totalPoints) {
+    sets.push({
+      market: 'totals',
+      point,
+      outcomes: [{ outcome: 'Over', point }, { outcome: 'Under', point }],
+    });
+  }
+
+  const homeSpreads = new Set(
+    game.bookmakers.filter((bm) =>
+      bm.market === 'spreads' && bm.outcome === game.homeTeam && bm.point !== undefined
+    ).map((bm) => bm.point as number),
+  );
+  for (const point of homeSpreads) {
+    sets.push({
+      market: 'spreads',
+      outcomes: [{ outcome: game.homeTeam, point }, { outcome: game.awayTeam, point: -point }],
+    });
+  }
+
+  return sets;
+}
+
+/**
+ * Detect classic cross-bookmaker arbs for a single game (from parseOddsResponse)
+ * Takes the best price for each outcome across bookies; if the summed implied probability
+ * is below 1 (with at least minMargin - the sport's own or /minmargin), backing them all locks in a profit.
+ * Leg stakes are left at 0 - see splitBookieStakes
+ */
+export function detectBookieArbs(game: ParsedGame, minMargin: number): BookieArbOpportunity[] {
+  const opportunities: BookieArbOpportunity[] = [];
+
+  for (const set of outcomeSets(game)) {
+    const legs: BookieArbLeg[] = [];
+
+    for (const { outcome, point } of set.outcomes) {
+      // Best price for this outcome at any bookie
+      const best = game.bookmakers
+        .filter((bm) => bm.market === set.market && bm.outcome === outcome && bm.point === point)
+        .sort((a, b) => b.odds - a.odds)[0];
+
+      if (!best) break;
+
+      legs.push({
+        selection: formatSelection(outcome, point),
+        bookie: best.bookie,
+        bookieKey: best.bookieKey,
+        // Build bookie URL (fallback if not available from API)
+        bookieUrl: `https://www.${best.bookieKey.toLowerCase()}.com.au/bet/${game.eventId}`,
+        odds: best.odds,
+        stake: 0, // Will be calculated by processBookieArbOpportunity
+        payout: 0,
+      });
+    }
+
+    // Every outcome must be priced, and at more than one bookie
+    if (legs.length !== set.outcomes.length) continue;
+    if (new Set(legs.map((leg) => leg.bookieKey)).size < 2) continue;
+
+    const implied = impliedProbability(legs.map((leg) => leg.odds));
+    const profitMargin = 1 / implied - 1;
+    if (profitMargin < minMargin) continue;
+
+    const lineSuffix = set.market === 'h2h' ? '' : `_${set.point ?? set.outcomes[0].point}`;
+    opportunities.push({
+      id: `${game.eventId}_bookies_${set.market}${lineSuffix}`,
+      event: `${game.homeTeam} vs ${game.awayTeam}`,
+      sport: game.sport,
+      startTime: game.commenceTime,
+      market: set.market,
+      point: set.point,
+      legs,
+      impliedProbability: implied,
+      profitMargin,
+      totalStake: 0, // Will be calculated by processBookieArbOpportunity
+      guaranteedProfit: 0,
+    });
+  }
+
+  return opportunities.sort((a, b) => b.profitMargin - a.profitMargin);
+}
@@ -0,0 +1,142 @@
+// Bot Commands - Telegram operator commands (/status, /pause, /sports, /stake, /minmargin)
+
+import type { Config } from './config.ts';
+import type { BetfairAuth } from './betfairAuth.ts';
+import type { QuotaManager } from './quotaManager.ts';
+import type { SettingsStore } from './settings.ts';
+import type { SportsRegistry } from './sportsConfig.ts';
+import { getKillSwitch } from './autoLay.ts';
+import { isValidGreyManRange } from './utils.ts';
+import type { TelegramBot } from './telegramBot.ts';
+
+/**
+ * Latest scan for a tier, under ['last_scan', tier]
+ */
+export interface ScanSummary {
+  at: string; // ISO Date
+  sports: number; // Sports in the tier's scan (after /sports filters)
+  polled: number; // Sports actually fetched (the rest were held back by the quota manager)
+  detected: number; // Opportunities detected
+}
+
+export interface BotCommandDeps {
+  kv: Deno.Kv;
+  config: Config;
+  settings: SettingsStore;
+  quotaManager: QuotaManager;
+  betfairAuth: BetfairAuth;
+  sports: SportsRegistry;
+}
+
+function formatSydneyTime(iso: string): string {
+  return new Date(iso).toLocaleString('en-AU', {
+    timeZone: 'Australia/Sydney',
+    dateStyle: 'short',
+    timeStyle: 'short',
+  });
+}
+
+function formatAge(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  return minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+export function registerBotCommands(bot: TelegramBot, deps: BotCommandDeps): void {
+  const { kv, config, settings, quotaManager, betfairAuth, sports } = deps;
+
+  bot.onCommand('status', 'Last scans, quota and Betfair session', async () => {
+    const current = await settings.load();
+    const lines = [`<b>Arb-Seeker ${current.paused ? '⏸️ PAUSED' : '▶️ running'}</b>`];
+
+    for (const tier of ['TIER_1', 'TIER_2']) {
+      const scan = (await kv.get<ScanSummary>(['last_scan', tier])).value;
+      lines.push(
+        scan
+          ? `${tier}: ${formatSydneyTime(scan.at)} - ${scan.polled}/${scan.sports} sports polled, ${scan.detected} arbs`
+          : `${tier}: no scan yet`,
+      );
+    }
+
+    const quota = await quotaManager.getState();
+    lines.push(
+      quota
+        ? `Odds-API: ${quota.remaining} requests left (${quota.used} used, as of ${formatSydneyTime(quota.updatedAt)})`
+        : 'Odds-API: no usage seen yet',
+    );
+
+    const sessionAge = await betfairAuth.getSessionAge();
+    lines.push(`Betfair session: ${sessionAge === null ? 'none cached' : `${formatAge(sessionAge)} old`}`);
+
+    const killSwitch = await getKillSwitch(kv);
+    lines.push(`Auto-lay: ${config.autoLayMode}${killSwitch ? ` (⛔ kill switch: ${killSwitch.reason})` : ''}`);
+    lines.push(
+      `Stake $${current.greyManMinStake}-$${current.greyManMaxStake}, ` +
+        `min margin ${(current.minNetMargin * 100).toFixed(2)}%`,
+    );
+    return lines.join('\n');
+  });
+
+  bot.onCommand('pause', 'Stop scanning until /resume', async () => {
+    await settings.update({ paused: true });
+    console.log('⏸️ Scanning paused via Telegram');
+    return '⏸️ Paused - no scans until /resume';
+  });
+
+  bot.onCommand('resume', 'Resume scanning', async () => {
+    await settings.update({ paused: false });
+    console.log('▶️ Scanning resumed via Telegram');
+    return '▶️ Resumed - scanning from the next cron tick';
+  });
+
+  bot.onCommand('sports', 'List sports, or /sports NBA on|off', async (args) => {
+    let current = await settings.load();
+
+    if (args.length > 0) {
+      const [name, state] = args;
+      const sportKey = sports.find(name)?.key;
+      if (!sportKey || !['on', 'off'].includes(state?.toLowerCase())) {
+        return 'Usage: /sports &lt;sport&gt; on|off, e.g. /sports NBA off';
+      }
+      const disabled = current.disabledSports.filter((key) => key !== sportKey);
+      if (state.toLowerCase() === 'off') disabled.push(sportKey);
+      current = await settings.update({ disabledSports: disabled });
+    }
+
+    const lines = sports.list().map(({ label, key, tier, enabled }) =>
+      `${current.disabledSports.includes(key) || !enabled ? '⛔' : '✅'} ${label} (${key}, ${tier})` +
+      (enabled ? '' : ' - disabled in sports.json')
+    );
+    return `<b>Sports</b>\n${lines.join('\n')}`;
+  });
+
+  bot.onCommand('stake', 'Grey Man stake range, e.g. /stake 200 300', async (args) => {
+    if (args.length === 0) {
+      const current = await settings.load();
+      return `Stake range: $${current.greyManMinStake}-$${current.greyManMaxStake}`;
+    }
+
+    const [min, max] = args.map((arg) => parseInt(arg, 10));
+    if (!(min >= 5 && max <= 10000 && isValidGreyManRange(min, max))) {
+      return 'Usage: /stake min max - whole dollars, $5 or more, min < max, ' +
+        'with an amount in between not divisible by 50';
+    }
+    await settings.update({ greyManMinStake: min, greyManMaxStake: max });
+    console.log(`💵 Stake range set to $${min}-$${max} via Telegram`);
+    return `💵 Stake range set to $${min}-$${max}`;
+  });
+
+  bot.onCommand('minmargin', 'Minimum net margin %, e.g. /minmargin 2.5', async (args) => {
+    if (args.length === 0) {
+      const current = await settings.load();
+      return `Minimum net margin: ${(current.minNetMargin * 100).toFixed(2)}%`;
+    }
+
+    const percent = parseFloat(args[0].replace('%', ''));
+    if (!(percent >= 0.5 && percent <= 20)) {
+      return 'Usage: /minmargin percent - between 0.5 and 20, e.g. /minmargin 2.5';
+    }
+    await settings.update({ minNetMargin: percent / 100 });
+    console.log(`📐 Minimum net margin set to ${percent}% via Telegram`);
+    return `📐 Minimum net margin set to ${percent}%`;
+  });
+}
@@ -0,0 +1,50 @@
+// CLI Args - --flag value parsing shared by the root scripts (backtest.ts, pnl.ts, lifecycle.ts)
+
+export type CliFlags = Map<string, string[]>;
+
+/**
+ * Parse --flag value / --flag=value arguments (flags may repeat)
+ */
+export function parseArgs(args: string[]): CliFlags {
+  const flags: CliFlags = new Map();
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--')) {
+      throw new Error(`Unexpected argument: ${arg}`);
+    }
+    const [name, inline] = arg.slice(2).split('=', 2);
+    const next = args[i + 1];
+    const value = inline ?? (next !== undefined && !next.startsWith('--') ? args[++i] : 'true');
+    flags.set(name, [...(flags.get(name) ?? []), value]);
+  }
+  return flags;
+}
+
+export function numberFlag(flags: CliFlags, name: string, fallback: number): number {
+  const raw = flags.get(name)?.at(-1);
+  if (raw === undefined) return fallback;
+  const value = parseFloat(raw);
+  if (Number.isNaN(value)) {
+    throw new Error(`--${name} must be a number (got "${raw}")`);
+  }
+  return value;
+}
+
+export function dateFlag(flags: CliFlags, name: string): Date | undefined {
+  const raw = flags.get(name)?.at(-1);
+  if (raw === undefined) return undefined;
+  const date = new Date(raw);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`--${name} must be an ISO date (got "${raw}")`);
+  }
+  return date;
+}
+
+/**
+ * Open Deno KV from --kv, falling back to DENO_KV_PATH (the bot's database)
+ */
+export async function openKvFromFlags(flags: CliFlags): Promise<Deno.Kv> {
+  const kvFlag = flags.get('kv')?.at(-1);
+  const kvPath = kvFlag && kvFlag !== 'true' ? kvFlag : Deno.env.get('DENO_KV_PATH');
+  return await Deno.openKv(kvPath || undefined);
+}
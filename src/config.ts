@@ -1,5 +1,16 @@
 // Configuration and environment variables
 
+import type { OddsMarketKey } from './marketMapping.ts';
+import { DEFAULT_SPORTS_CONFIG_PATH, loadSportsConfig } from './sportsConfig.ts';
+import type { SportConfig } from './sportsConfig.ts';
+import { isValidGreyManRange } from './utils.ts';
+
+export type AutoLayMode = 'off' | 'dry-run' | 'live';
+
+export type NotifierChannel = 'telegram' | 'googlechat' | 'webhook';
+
+export const NOTIFIER_CHANNELS: NotifierChannel[] = ['telegram', 'googlechat', 'webhook'];
+
 export interface Config {
   oddsApiKey: string;
   telegramBotToken: string;
@@ -9,6 +20,29 @@ export interface Config {
   betfairPassword: string;
   greyManMinStake: number;
   greyManMaxStake: number;
+  betfairCommissionRate: number | null; // null = use the market's base rate
+  betfairLadderDepth: number; // Lay ladder levels fetched per runner
+  oddsMarkets: OddsMarketKey[]; // Odds-API markets to scan (each costs quota) - default for sports without their own
+  sportsConfigPath: string | URL; // sports.json - sports, tiers, active hours, Betfair ids (no secrets)
+  sports: SportConfig[]; // As loaded at startup - SportsRegistry picks up later edits
+  bookieArbsEnabled: boolean; // Also look for bookie-vs-bookie arbs (no exchange leg)
+  betfairStreamEnabled: boolean; // Read lay prices from the Exchange Stream API cache
+  betfairStreamUrl: string; // tls://host:port (Betfair) or tcp://host:port (local fake server)
+  quotaResetDay: number; // Day of month the Odds-API quota resets (1-28)
+  quotaWarnThresholds: number[]; // Percent of quota used that triggers a warning, e.g. [50, 80, 95]
+  recordSnapshots: boolean; // Save per-scan odds and Betfair ladders to KV
+  snapshotRetentionDays: number; // Snapshots expire after this many days
+  autoLayMode: AutoLayMode; // off = manual lay, dry-run = run every guard but don't place
+  autoLayMaxBetLiability: number; // $ cap per auto-lay
+  autoLayMaxDailyLiability: number; // $ cap across auto-lays per Sydney day
+  autoLayMaxBalanceFraction: number; // Per-bet cap as a share of available Betfair balance
+  notifyChannels: NotifierChannel[]; // Every alert goes to each of these
+  googleChatWebhookUrl: string | null; // Incoming webhook of the Google Chat space (googlechat channel)
+  webhookUrls: string[]; // Our own endpoints (webhook channel)
+  webhookSecret: string | null; // HMAC-SHA256 key for the X-Arb-Seeker-Signature header
+  httpPort: number; // HTTP API and dashboard (0 = off, the default)
+  httpHost: string; // Interface to bind - loopback unless configured otherwise
+  httpApiToken: string | null; // Required on every route but /health when set
   mockMode: boolean;
 }
 
@@ -19,46 +53,6 @@ export const POLLING_INTERVALS = {
   TIER_3: 21600000, // 6 hours (Futures/Outrights)
 } as const;
 
-// Sport Keys (corrected for API compatibility)
-export const SPORT_KEYS = {
-  NBA: 'basketball_nba',
-  AFL: 'aussierules_afl', // Note: No underscore in 'aussierules'
-  NRL: 'rugbyleague_nrl', // Note: No underscore in 'rugbyleague'
-  CRICKET: 'cricket',
-  RUGBY_UNION: 'rugbyunion',
-  // TENNIS_ATP: 'tennis_atp', // Commented out: The-Odds-API uses tournament-specific keys (e.g., tennis_atp_aus_open_singles)
-  // TENNIS_WTA: 'tennis_wta', // Commented out: The-Odds-API uses tournament-specific keys (e.g., tennis_wta_wimbledon)
-  SOCCER_EPL: 'soccer_epl',
-  SOCCER_UEFA_CHAMPS_LEAGUE: 'soccer_uefa_champs_league',
-} as const;
-
-// Sport Tiers Mapping
-export const SPORT_TIERS: Record<string, 'TIER_1' | 'TIER_2' | 'TIER_3'> = {
-  [SPORT_KEYS.NBA]: 'TIER_1',
-  [SPORT_KEYS.AFL]: 'TIER_1',
-  [SPORT_KEYS.NRL]: 'TIER_1',
-  [SPORT_KEYS.CRICKET]: 'TIER_2',
-  [SPORT_KEYS.RUGBY_UNION]: 'TIER_2',
-  // [SPORT_KEYS.TENNIS_ATP]: 'TIER_1', // Commented out: See SPORT_KEYS
-  // [SPORT_KEYS.TENNIS_WTA]: 'TIER_1', // Commented out: See SPORT_KEYS
-  [SPORT_KEYS.SOCCER_EPL]: 'TIER_1',
-  [SPORT_KEYS.SOCCER_UEFA_CHAMPS_LEAGUE]: 'TIER_1',
-};
-
-// Active Hours Filter (AEDT timezone)
-// Skip scanning when games are typically over
-export const ACTIVE_HOURS: Record<string, { start: number; end: number }> = {
-  [SPORT_KEYS.NBA]: { start: 8, end: 14 }, // 8 AM - 2 PM AEDT
-  [SPORT_KEYS.AFL]: { start: 12, end: 22 }, // 12 PM - 10 PM AEDT
-  [SPORT_KEYS.NRL]: { start: 16, end: 22 }, // 4 PM - 10 PM AEDT
-  [SPORT_KEYS.CRICKET]: { start: 10, end: 20 }, // 10 AM - 8 PM AEDT
-  [SPORT_KEYS.RUGBY_UNION]: { start: 18, end: 23 }, // 6 PM - 11 PM AEDT
-  // [SPORT_KEYS.TENNIS_ATP]: { start: 8, end: 23 }, // Commented out: See SPORT_KEYS
-  // [SPORT_KEYS.TENNIS_WTA]: { start: 8, end: 23 }, // Commented out: See SPORT_KEYS
-  [SPORT_KEYS.SOCCER_EPL]: { start: 20, end: 8 }, // 8 PM - 8 AM AEDT (UK timezone overlap)
-  [SPORT_KEYS.SOCCER_UEFA_CHAMPS_LEAGUE]: { start: 4, end: 10 }, // 4 AM - 10 AM AEDT (European matches)
-};
-
 export function loadConfig(): Config {
   const oddsApiKey = Deno.env.get('ODDS_API_KEY');
   const telegramBotToken = Deno.env.get('TELEGRAM_BOT_TOKEN') || '';
@@ -68,7 +62,39 @@ export function loadConfig(): Config {
   const betfairPassword = Deno.env.get('BETFAIR_PASSWORD');
   const greyManMinStake = parseInt(Deno.env.get('GREY_MAN_MIN_STAKE') || '280', 10);
   const greyManMaxStake = parseInt(Deno.env.get('GREY_MAN_MAX_STAKE') || '420', 10);
+  const commissionEnv = Deno.env.get('BETFAIR_COMMISSION_RATE');
+  const betfairCommissionRate = commissionEnv ? parseFloat(commissionEnv) : null;
+  const betfairLadderDepth = parseInt(Deno.env.get('BETFAIR_LADDER_DEPTH') || '5', 10);
+  const oddsMarkets = (Deno.env.get('ODDS_API_MARKETS') || 'h2h')
+    .split(',')
+    .map((market) => market.trim()) as OddsMarketKey[];
+  const bookieArbsEnabled = Deno.env.get('BOOKIE_ARBS_ENABLED') !== 'false';
+  const betfairStreamEnabled = Deno.env.get('BETFAIR_STREAM_ENABLED') === 'true';
+  const betfairStreamUrl = Deno.env.get('BETFAIR_STREAM_URL') || 'tls://stream-api.betfair.com:443';
+  const quotaResetDay = parseInt(Deno.env.get('ODDS_API_QUOTA_RESET_DAY') || '1', 10);
+  const quotaWarnThresholds = (Deno.env.get('ODDS_API_QUOTA_WARN_THRESHOLDS') || '50,80,95')
+    .split(',')
+    .map((threshold) => parseFloat(threshold.trim()));
+  const recordSnapshots = Deno.env.get('RECORD_SNAPSHOTS') === 'true';
+  const snapshotRetentionDays = parseFloat(Deno.env.get('SNAPSHOT_RETENTION_DAYS') || '7');
+  const autoLayMode = (Deno.env.get('AUTO_LAY') || 'off') as AutoLayMode;
+  const autoLayMaxBetLiability = parseFloat(Deno.env.get('AUTO_LAY_MAX_BET_LIABILITY') || '250');
+  const autoLayMaxDailyLiability = parseFloat(Deno.env.get('AUTO_LAY_MAX_DAILY_LIABILITY') || '1000');
+  const autoLayMaxBalanceFraction = parseFloat(Deno.env.get('AUTO_LAY_MAX_BALANCE_FRACTION') || '0.2');
+  const notifyChannels = (Deno.env.get('NOTIFY_CHANNELS') || 'telegram')
+    .split(',')
+    .map((channel) => channel.trim().toLowerCase()) as NotifierChannel[];
+  const googleChatWebhookUrl = Deno.env.get('GOOGLE_CHAT_WEBHOOK_URL') || null;
+  const webhookUrls = (Deno.env.get('WEBHOOK_URLS') || '')
+    .split(',')
+    .map((url) => url.trim())
+    .filter((url) => url.length > 0);
+  const webhookSecret = Deno.env.get('WEBHOOK_SECRET') || null;
+  const httpPort = parseInt(Deno.env.get('HTTP_PORT') || '0', 10);
+  const httpHost = Deno.env.get('HTTP_HOST') || '127.0.0.1';
+  const httpApiToken = Deno.env.get('HTTP_API_TOKEN') || null;
   const mockMode = Deno.env.get('MOCK_MODE') === 'true';
+  const sportsConfigPath = Deno.env.get('SPORTS_CONFIG') || DEFAULT_SPORTS_CONFIG_PATH;
 
   if (!oddsApiKey) throw new Error('ODDS_API_KEY is required');
   if (!telegramBotToken) throw new Error('TELEGRAM_BOT_TOKEN is required');
@@ -76,6 +102,66 @@ export function loadConfig(): Config {
   if (!betfairAppKey) throw new Error('BETFAIR_APP_KEY is required');
   if (!betfairUsername) throw new Error('BETFAIR_USERNAME is required');
   if (!betfairPassword) throw new Error('BETFAIR_PASSWORD is required');
+  if (!isValidGreyManRange(greyManMinStake, greyManMaxStake)) {
+    throw new Error(
+      'GREY_MAN_MIN_STAKE must be below GREY_MAN_MAX_STAKE, with an amount in between not divisible by 50',
+    );
+  }
+  if (betfairCommissionRate !== null && !(betfairCommissionRate >= 0 && betfairCommissionRate < 1)) {
+    throw new Error('BETFAIR_COMMISSION_RATE must be a fraction between 0 and 1 (e.g. 0.05)');
+  }
+  if (!(betfairLadderDepth >= 1 && betfairLadderDepth <= 10)) {
+    throw new Error('BETFAIR_LADDER_DEPTH must be between 1 and 10');
+  }
+  const unknownMarkets = oddsMarkets.filter((m) => !['h2h', 'spreads', 'totals'].includes(m));
+  if (unknownMarkets.length > 0) {
+    throw new Error(`ODDS_API_MARKETS has unsupported markets: ${unknownMarkets.join(', ')}`);
+  }
+  if (!/^(tls|tcp):\/\/[^/]+:\d+$/.test(betfairStreamUrl)) {
+    throw new Error('BETFAIR_STREAM_URL must look like tls://stream-api.betfair.com:443');
+  }
+  if (!(quotaResetDay >= 1 && quotaResetDay <= 28)) {
+    throw new Error('ODDS_API_QUOTA_RESET_DAY must be between 1 and 28');
+  }
+  if (quotaWarnThresholds.some((t) => !(t > 0 && t < 100))) {
+    throw new Error('ODDS_API_QUOTA_WARN_THRESHOLDS must be percentages between 0 and 100 (e.g. 50,80,95)');
+  }
+  if (!(snapshotRetentionDays > 0 && snapshotRetentionDays <= 90)) {
+    throw new Error('SNAPSHOT_RETENTION_DAYS must be between 0 and 90');
+  }
+  if (!['off', 'dry-run', 'live'].includes(autoLayMode)) {
+    throw new Error('AUTO_LAY must be one of: off, dry-run, live');
+  }
+  if (!(autoLayMaxBetLiability > 0) || !(autoLayMaxDailyLiability > 0)) {
+    throw new Error('AUTO_LAY_MAX_BET_LIABILITY and AUTO_LAY_MAX_DAILY_LIABILITY must be positive');
+  }
+  if (!(autoLayMaxBalanceFraction > 0 && autoLayMaxBalanceFraction <= 1)) {
+    throw new Error('AUTO_LAY_MAX_BALANCE_FRACTION must be a fraction between 0 and 1 (e.g. 0.2)');
+  }
+  const unknownChannels = notifyChannels.filter((c) => !NOTIFIER_CHANNELS.includes(c));
+  if (notifyChannels.length === 0 || unknownChannels.length > 0) {
+    throw new Error(`NOTIFY_CHANNELS must be a list of: ${NOTIFIER_CHANNELS.join(', ')}`);
+  }
+  if (notifyChannels.includes('googlechat') && !googleChatWebhookUrl?.startsWith('https://')) {
+    throw new Error('GOOGLE_CHAT_WEBHOOK_URL is required (https://chat.googleapis.com/...) for the googlechat channel');
+  }
+  if (notifyChannels.includes('webhook')) {
+    if (webhookUrls.length === 0 || webhookUrls.some((url) => !/^https?:\/\//.test(url))) {
+      throw new Error('WEBHOOK_URLS must be a comma-separated list of http(s) URLs for the webhook channel');
+    }
+    if (!webhookSecret || webhookSecret.length < 16) {
+      throw new Error('WEBHOOK_SECRET (16+ characters) is required for the webhook channel');
+    }
+  }
+  if (!(httpPort >= 0 && httpPort <= 65535)) {
+    throw new Error('HTTP_PORT must be a port number, or 0 to disable the HTTP API');
+  }
+  if (httpPort !== 0 && !httpApiToken && !['127.0.0.1', 'localhost', '::1'].includes(httpHost)) {
+    throw new Error('HTTP_API_TOKEN is required when HTTP_HOST serves the API beyond localhost');
+  }
+
+  // Sports come from the file; env only supplies the default markets
+  const sports = loadSportsConfig(sportsConfigPath, oddsMarkets);
 
   return {
     oddsApiKey,
@@ -86,6 +172,29 @@ export function loadConfig(): Config {
     betfairPassword,
     greyManMinStake,
     greyManMaxStake,
+    betfairCommissionRate,
+    betfairLadderDepth,
+    oddsMarkets,
+    sportsConfigPath,
+    sports,
+    bookieArbsEnabled,
+    betfairStreamEnabled,
+    betfairStreamUrl,
+    quotaResetDay,
+    quotaWarnThresholds,
+    recordSnapshots,
+    snapshotRetentionDays,
+    autoLayMode,
+    autoLayMaxBetLiability,
+    autoLayMaxDailyLiability,
+    autoLayMaxBalanceFraction,
+    notifyChannels,
+    googleChatWebhookUrl,
+    webhookUrls,
+    webhookSecret,
+    httpPort,
+    httpHost,
+    httpApiToken,
     mockMode,
   };
 }
@@ -103,38 +212,9 @@ export function isSydneyDaytime(): boolean {
   return currentHour >= 7 && currentHour < 23;
 }
 
-export function isActiveHours(sportKey: string): boolean {
-  const hours = ACTIVE_HOURS[sportKey];
-  if (!hours) return true; // Default to active if no hours defined
-
-  const now = new Date();
-  const aedtOffset = 11 * 60; // AEDT is UTC+11
-  const aedtTime = new Date(now.getTime() + aedtOffset * 60 * 1000);
-  const currentHour = aedtTime.getUTCHours();
-
-  // Handle wrap-around (e.g., 22-8 means 22:00 to 08:00 next day)
-  if (hours.start > hours.end) {
-    return currentHour >= hours.start || currentHour < hours.end;
-  }
-  return currentHour >= hours.start && currentHour < hours.end;
-}
-
 /**
- * Map sport key to Betfair event type ID
- * Returns null if sport is not mapped
+ * Sydney calendar date, e.g. "2026-10-19" - the bot's "day" for daily budgets and caps
  */
-export function getBetfairIdFromKey(key: string): string | null {
-  const map: Record<string, string> = {
-    'basketball_nba': '7522',
-    'aussierules_afl': '61420',
-    'rugbyleague_nrl': '1477',
-    'cricket': '4',
-    'rugbyunion': '5',
-    // 'tennis_atp': '2', // Commented out: See SPORT_KEYS
-    // 'tennis_wta': '2', // Commented out: See SPORT_KEYS
-    'soccer_epl': '1',
-    'soccer_uefa_champs_league': '1',
-  };
-  return map[key] || null;
+export function getSydneyDateKey(now = new Date()): string {
+  return now.toLocaleDateString('en-CA', { timeZone: 'Australia/Sydney' });
 }
-
@@ -0,0 +1,180 @@
+// Entity Resolution - Match bookie team names to Betfair runners with a confidence score
+
+import { TEAM_ALIASES } from './teamAliases.ts';
+
+export const MIN_MATCH_CONFIDENCE = 0.6; // Below this a match is rejected
+export const FLAG_MATCH_CONFIDENCE = 0.85; // Below this a match is flagged in the alert
+const AMBIGUITY_GAP = 0.1; // Top two candidates closer than this are ambiguous
+
+// Tokens that carry no identity (club suffixes, articles)
+const DROP_TOKENS = new Set(['fc', 'afc', 'sc', 'cf', 'the']);
+
+// Common abbreviations expanded before comparison
+const ABBREVIATIONS: Record<string, string> = {
+  utd: 'united',
+  st: 'saint',
+  nth: 'north',
+  qld: 'queensland',
+  nz: 'new zealand',
+  la: 'los angeles',
+  ny: 'new york',
+  man: 'manchester',
+};
+
+export type MatchMethod = 'exact' | 'learned' | 'alias' | 'fuzzy';
+
+export interface RunnerMatch<T> {
+  runner: T;
+  confidence: number; // 0-1
+  method: MatchMethod;
+}
+
+/**
+ * Normalise a team name for comparison
+ * e.g. "Man Utd FC" -> "manchester united", "Nott'm Forest" -> "nottm forest"
+ */
+export function normalizeTeamName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Strip diacritics (München -> Munchen)
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’.]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter((token) => token && !DROP_TOKENS.has(token))
+    .map((token) => ABBREVIATIONS[token] ?? token)
+    .join(' ');
+}
+
+/**
+ * Build a normalised alias -> canonical lookup for a sport
+ */
+function aliasLookup(sportKey?: string): Map<string, string> {
+  const lookup = new Map<string, string>();
+  const table = sportKey ? TEAM_ALIASES[sportKey] ?? {} : {};
+
+  for (const [canonical, aliases] of Object.entries(table)) {
+    const key = normalizeTeamName(canonical);
+    lookup.set(key, key);
+    for (const alias of aliases) {
+      lookup.set(normalizeTeamName(alias), key);
+    }
+  }
+  return lookup;
+}
+
+/**
+ * Character bigram Dice coefficient (0-1)
+ */
+function bigramSimilarity(a: string, b: string): number {
+  const bigrams = (s: string) => {
+    const grams: string[] = [];
+    const compact = s.replace(/ /g, '');
+    for (let i = 0; i < compact.length - 1; i++) grams.push(compact.slice(i, i + 2));
+    return grams;
+  };
+
+  const aGrams = bigrams(a);
+  const bGrams = bigrams(b);
+  if (aGrams.length === 0 || bGrams.length === 0) return a === b ? 1 : 0;
+
+  const counts = new Map<string, number>();
+  for (const gram of aGrams) counts.set(gram, (counts.get(gram) ?? 0) + 1);
+
+  let overlap = 0;
+  for (const gram of bGrams) {
+    const count = counts.get(gram) ?? 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(gram, count - 1);
+    }
+  }
+  return (2 * overlap) / (aGrams.length + bGrams.length);
+}
+
+/**
+ * Fuzzy score two normalised names (0-1)
+ * Token containment ("lakers" in "los angeles lakers") scores high but below an alias match
+ */
+export function scoreTeamNames(a: string, b: string): number {
+  if (a === b) return 1;
+
+  const aTokens = new Set(a.split(' '));
+  const bTokens = new Set(b.split(' '));
+  const shared = [...aTokens].filter((token) => bTokens.has(token)).length;
+
+  const tokenDice = (2 * shared) / (aTokens.size + bTokens.size);
+  const smaller = Math.min(aTokens.size, bTokens.size);
+  const larger = Math.max(aTokens.size, bTokens.size);
+  const containment = shared === smaller ? 0.75 + 0.25 * (smaller / larger) : 0;
+
+  return Math.max(tokenDice, containment, bigramSimilarity(a, b) * 0.9);
+}
+
+/**
+ * Match a bookie outcome name to a Betfair runner
+ * Order: exact -> learned (confirmed in KV) -> sport alias table -> fuzzy score
+ * Returns null if no candidate scores, or the best two are too close to call
+ */
+export function matchRunner<T extends { runnerName: string }>(
+  outcome: string,
+  runners: T[],
+  options: { sportKey?: string; learned?: Record<string, string> } = {},
+): RunnerMatch<T> | null {
+  const name = normalizeTeamName(outcome);
+  const learnedName = options.learned?.[name];
+  const aliases = aliasLookup(options.sportKey);
+  const canonical = aliases.get(name);
+
+  const scored = runners.map((runner) => {
+    const runnerName = normalizeTeamName(runner.runnerName);
+
+    if (runnerName === name) return { runner, confidence: 1, method: 'exact' as const };
+    if (learnedName && normalizeTeamName(learnedName) === runnerName) {
+      return { runner, confidence: 1, method: 'learned' as const };
+    }
+    if (canonical && aliases.get(runnerName) === canonical) {
+      return { runner, confidence: 0.98, method: 'alias' as const };
+    }
+    return { runner, confidence: scoreTeamNames(name, runnerName), method: 'fuzzy' as const };
+  }).sort((a, b) => b.confidence - a.confidence);
+
+  const [best, second] = scored;
+  if (!best || best.confidence === 0) return null;
+
+  // "Sydney" scoring equally against two runners is not a match
+  if (second && best.confidence - second.confidence < AMBIGUITY_GAP) return null;
+
+  return best;
+}
+
+/**
+ * Confirmed team mappings persisted in Deno KV
+ * Key: ['team_alias', sportKey, normalisedBookieName] -> Betfair runner name
+ */
+export class TeamAliasStore {
+  private kv: Deno.Kv;
+
+  constructor(kv: Deno.Kv) {
+    this.kv = kv;
+  }
+
+  /**
+   * Load all confirmed mappings for a sport (normalised bookie name -> runner name)
+   */
+  async load(sportKey: string): Promise<Record<string, string>> {
+    const learned: Record<string, string> = {};
+    for await (const entry of this.kv.list<string>({ prefix: ['team_alias', sportKey] })) {
+      learned[entry.key[2] as string] = entry.value;
+    }
+    return learned;
+  }
+
+  /**
+   * Confirm a bookie name -> Betfair runner mapping so later scans reuse it
+   */
+  async confirm(sportKey: string, bookieName: string, runnerName: string): Promise<void> {
+    await this.kv.set(['team_alias', sportKey, normalizeTeamName(bookieName)], runnerName);
+  }
+}
@@ -0,0 +1,268 @@
+// Fake Betfair Stream server - local ESA stand-in for running the stream client without Betfair
+// Speaks plain TCP: point BETFAIR_STREAM_URL at tcp://localhost:<port>
+
+import type { StreamMarketChange } from './types.ts';
+
+interface FakeClient {
+  conn: Deno.Conn;
+  writer: WritableStreamDefaultWriter<Uint8Array>;
+  authenticated: boolean;
+  subscriptionId: number | null;
+  marketIds: Set<string>;
+  lastSentAt: number;
+}
+
+export interface FakeStreamServerOptions {
+  port?: number; // 0 = any free port
+  sessionToken?: string; // Reject authentication with any other session
+  heartbeatMs?: number;
+}
+
+export class FakeStreamServer {
+  private options: FakeStreamServerOptions;
+  private listener: Deno.Listener | null = null;
+  private clients = new Set<FakeClient>();
+  private images = new Map<string, StreamMarketChange>(); // Initial image per market
+  private changes: Array<{ clk: number; change: StreamMarketChange }> = []; // Delta log since the images
+  private subscriptions: Array<Record<string, unknown>> = [];
+  private clk = 0;
+  private heartbeat: number | null = null;
+
+  constructor(options: FakeStreamServerOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Start listening - returns the bound port
+   */
+  start(): number {
+    this.listener = Deno.listen({ hostname: '127.0.0.1', port: this.options.port ?? 0 });
+    this.accept(this.listener);
+
+    const heartbeatMs = this.options.heartbeatMs ?? 5000;
+    this.heartbeat = setInterval(() => {
+      for (const client of this.clients) {
+        if (client.subscriptionId !== null && Date.now() - client.lastSentAt >= heartbeatMs) {
+          this.sendChange(client, 'HEARTBEAT', []);
+        }
+      }
+    }, heartbeatMs);
+
+    return (this.listener.addr as Deno.NetAddr).port;
+  }
+
+  close(): void {
+    if (this.heartbeat !== null) clearInterval(this.heartbeat);
+    this.dropConnections();
+    this.listener?.close();
+    this.listener = null;
+  }
+
+  /**
+   * Seed a market's full image (sent with img: true on subscribe)
+   */
+  setMarket(image: StreamMarketChange): void {
+    this.images.set(image.id, { ...image, img: true });
+  }
+
+  /**
+   * Publish a delta to subscribed clients and record it for RESUB_DELTA replays
+   */
+  publish(change: StreamMarketChange): void {
+    this.clk++;
+    this.changes.push({ clk: this.clk, change });
+    for (const client of this.clients) {
+      if (client.marketIds.has(change.id)) {
+        this.sendChange(client, undefined, [change]);
+      }
+    }
+  }
+
+  /**
+   * Close every client socket - simulates a network drop so the client reconnects
+   */
+  dropConnections(): void {
+    for (const client of this.clients) {
+      try {
+        client.conn.close();
+      } catch {
+        // Already closed
+      }
+    }
+    this.clients.clear();
+  }
+
+  /**
+   * Go silent without closing sockets - simulates a stalled connection (missed heartbeats)
+   */
+  stall(): void {
+    if (this.heartbeat !== null) clearInterval(this.heartbeat);
+    this.heartbeat = null;
+  }
+
+  get connectionCount(): number {
+    return this.clients.size;
+  }
+
+  /**
+   * Every marketSubscription request received, oldest first - shows whether a client resumed with clk
+   */
+  get subscriptionRequests(): Array<Record<string, unknown>> {
+    return [...this.subscriptions];
+  }
+
+  private async accept(listener: Deno.Listener): Promise<void> {
+    try {
+      for await (const conn of listener) {
+        this.handle(conn);
+      }
+    } catch {
+      // Listener closed
+    }
+  }
+
+  private async handle(conn: Deno.Conn): Promise<void> {
+    const client: FakeClient = {
+      conn,
+      writer: conn.writable.getWriter(),
+      authenticated: false,
+      subscriptionId: null,
+      marketIds: new Set(),
+      lastSentAt: Date.now(),
+    };
+    this.clients.add(client);
+    this.write(client, { op: 'connection', connectionId: `fake-${crypto.randomUUID()}` });
+
+    let buffer = '';
+    try {
+      for await (const chunk of conn.readable.pipeThrough(new TextDecoderStream())) {
+        buffer += chunk;
+        let newline = buffer.indexOf('\r\n');
+        while (newline !== -1) {
+          const line = buffer.slice(0, newline);
+          buffer = buffer.slice(newline + 2);
+          if (line.trim()) this.handleRequest(client, JSON.parse(line));
+          newline = buffer.indexOf('\r\n');
+        }
+      }
+    } catch {
+      // Client went away
+    } finally {
+      this.clients.delete(client);
+    }
+  }
+
+  private handleRequest(client: FakeClient, request: Record<string, unknown>): void {
+    const id = request.id as number;
+
+    if (request.op === 'authentication') {
+      if (this.options.sessionToken && request.session !== this.options.sessionToken) {
+        this.reject(client, id, 'NO_SESSION', 'Invalid session token');
+        return;
+      }
+      client.authenticated = true;
+      this.write(client, { op: 'status', id, statusCode: 'SUCCESS', connectionClosed: false });
+      return;
+    }
+
+    if (!client.authenticated) {
+      this.reject(client, id, 'NOT_AUTHORIZED', 'Authenticate first');
+      return;
+    }
+
+    if (request.op === 'marketSubscription') {
+      this.subscriptions.push(request);
+      const filter = request.marketFilter as { marketIds?: string[] } | undefined;
+      client.subscriptionId = id;
+      client.marketIds = new Set(filter?.marketIds ?? []);
+      this.write(client, { op: 'status', id, statusCode: 'SUCCESS', connectionClosed: false });
+
+      // Resume: replay changes after the client's clk, otherwise send the full image
+      const resumeClk = request.clk ? parseInt(request.clk as string, 10) : null;
+      if (resumeClk !== null && !Number.isNaN(resumeClk)) {
+        this.sendChange(client, 'RESUB_DELTA', this.changesFor(client, resumeClk));
+      } else {
+        const images = [...client.marketIds]
+          .map((marketId) => this.images.get(marketId))
+          .filter((image): image is StreamMarketChange => image !== undefined);
+        this.sendChange(client, 'SUB_IMAGE', [...images, ...this.changesFor(client, 0)]);
+      }
+      return;
+    }
+
+    if (request.op === 'heartbeat') {
+      this.write(client, { op: 'status', id, statusCode: 'SUCCESS', connectionClosed: false });
+    }
+  }
+
+  private changesFor(client: FakeClient, afterClk: number): StreamMarketChange[] {
+    return this.changes
+      .filter(({ clk, change }) => clk > afterClk && client.marketIds.has(change.id))
+      .map(({ change }) => change);
+  }
+
+  private sendChange(
+    client: FakeClient,
+    ct: 'SUB_IMAGE' | 'RESUB_DELTA' | 'HEARTBEAT' | undefined,
+    mc: StreamMarketChange[],
+  ): void {
+    this.write(client, {
+      op: 'mcm',
+      id: client.subscriptionId,
+      ...(ct ? { ct } : {}),
+      initialClk: '0',
+      clk: String(this.clk),
+      heartbeatMs: this.options.heartbeatMs ?? 5000,
+      pt: Date.now(),
+      ...(mc.length > 0 ? { mc } : {}),
+    });
+  }
+
+  private write(client: FakeClient, message: Record<string, unknown>): Promise<void> {
+    client.lastSentAt = Date.now();
+    return client.writer
+      .write(new TextEncoder().encode(JSON.stringify(message) + '\r\n'))
+      .catch(() => {
+        this.clients.delete(client);
+      });
+  }
+
+  /**
+   * Send a final status and close, like Betfair does on connectionClosed: true
+   */
+  private reject(client: FakeClient, id: number, errorCode: string, errorMessage: string): void {
+    this.write(client, {
+      op: 'status',
+      id,
+      statusCode: 'FAILURE',
+      errorCode,
+      errorMessage,
+      connectionClosed: true,
+    }).then(() => client.conn.close()).catch(() => {});
+  }
+}
+
+// Standalone: `deno task stream:fake` serves the mock Lakers vs Celtics market with a drifting lay price
+if (import.meta.main) {
+  const server = new FakeStreamServer({ port: parseInt(Deno.env.get('PORT') || '9443', 10) });
+  const port = server.start();
+  server.setMarket({
+    id: '1.234567890',
+    marketDefinition: {
+      status: 'OPEN',
+      inPlay: false,
+      marketBaseRate: 5,
+      runners: [{ id: 12345, status: 'ACTIVE' }, { id: 67890, status: 'ACTIVE' }],
+    },
+    rc: [
+      { id: 12345, batb: [[0, 2.28, 400]], batl: [[0, 2.30, 1100], [1, 2.32, 600]] },
+      { id: 67890, batb: [[0, 1.74, 900]], batl: [[0, 1.76, 800]] },
+    ],
+  });
+  console.log(`🧪 Fake Betfair stream listening on tcp://localhost:${port}`);
+
+  setInterval(() => {
+    const price = Math.round((2.26 + Math.random() * 0.08) * 100) / 100;
+    server.publish({ id: '1.234567890', rc: [{ id: 12345, batl: [[0, price, 1100]] }] });
+  }, 2000);
+}
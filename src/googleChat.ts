@@ -0,0 +1,191 @@
+// Google Chat Notifications - cardsV2 alerts through an incoming webhook
+
+import type { ArbOpportunity, BookieArbOpportunity, GoogleChatButton, GoogleChatCard, GoogleChatSection } from './types.ts';
+import { FLAG_MATCH_CONFIDENCE } from './entityResolution.ts';
+import { betfairMarketUrl, formatPnl, MARKET_LABELS } from './notifications.ts';
+import { SYSTEM_ALERT_ICONS } from './notifier.ts';
+import type { ArbAlert, Notifier, SystemAlert } from './notifier.ts';
+
+function formatStartTime(iso: string): string {
+  return new Date(iso).toLocaleString('en-AU', {
+    timeZone: 'Australia/Sydney',
+    dateStyle: 'short',
+    timeStyle: 'short',
+  });
+}
+
+function linkButton(text: string, url: string): GoogleChatButton {
+  return { text, onClick: { openLink: { url } } };
+}
+
+/**
+ * Card for an arb alert - same content and link buttons as the Telegram alert
+ * (Google Chat webhooks can't receive button taps, so there are no Placed / Skipped buttons)
+ */
+export function buildArbCard(alert: ArbAlert): GoogleChatCard {
+  const { arb, autoLayStatus, alternatives } = alert;
+  const layPrice = arb.layVwap > arb.layOdds
+    ? `${arb.layOdds} (avg ${arb.layVwap.toFixed(3)} across ladder)`
+    : `${arb.layOdds}`;
+
+  const strategy: GoogleChatSection = {
+    header: 'Strategy',
+    widgets: [
+      {
+        decoratedText: {
+          topLabel: 'Back',
+          text: `<b>$${arb.suggestedStake}</b> on <b>${arb.selection}</b> at ${arb.bookie} @ ${arb.bookieOdds}`,
+        },
+      },
+      {
+        decoratedText: {
+          topLabel: 'Lay',
+          text: `<b>$${arb.layStake.toFixed(2)}</b> on Betfair @ ${layPrice}`,
+          bottomLabel: `Liability $${arb.layLiability.toFixed(2)}, $${(arb.layStake / arb.suggestedStake).toFixed(3)} per $1 backed`,
+        },
+      },
+      { decoratedText: { topLabel: 'Betfair status', text: autoLayStatus } },
+      ...(arb.matchConfidence < FLAG_MATCH_CONFIDENCE
+        ? [{
+          decoratedText: {
+            topLabel: '⚠️ Check runner',
+            text: `${arb.selection} → ${arb.betfairRunnerName} (${(arb.matchConfidence * 100).toFixed(0)}% match)`,
+          },
+        }]
+        : []),
+    ],
+  };
+
+  const outcomes: GoogleChatSection = {
+    header: 'Outcomes',
+    widgets: [
+      { decoratedText: { topLabel: 'If back wins', text: formatPnl(arb.profitIfBackWins) } },
+      { decoratedText: { topLabel: 'If back loses', text: formatPnl(arb.profitIfBackLoses) } },
+    ],
+  };
+
+  const alternativesSection: GoogleChatSection[] = alternatives.length === 0 ? [] : [{
+    header: 'Alternatives',
+    widgets: alternatives.map((alt: ArbOpportunity, i) => ({
+      decoratedText: {
+        topLabel: `${i + 2}. ${alt.bookie}`,
+        text: `Back ${alt.selection} @ ${alt.bookieOdds} / Lay @ ${alt.layOdds}`,
+        bottomLabel: `${(alt.netMargin * 100).toFixed(2)}% net, $${alt.suggestedStake} -> lay $${alt.layStake.toFixed(2)}`,
+      },
+    })),
+  }];
+
+  const buttons: GoogleChatButton[] = [
+    linkButton(`OPEN ${arb.bookie.toUpperCase()}`, arb.bookieUrl),
+    ...alternatives
+      .filter((alt) => alt.bookie !== arb.bookie)
+      .map((alt) => linkButton(`ALT: ${alt.bookie.toUpperCase()} (${alt.selection})`, alt.bookieUrl)),
+    linkButton('OPEN BETFAIR', betfairMarketUrl(arb.betfairMarketId)),
+  ];
+
+  return {
+    cardsV2: [{
+      cardId: `arb-${arb.id}`,
+      card: {
+        header: {
+          title: `🚨 ARB FOUND: ${(arb.netMargin * 100).toFixed(2)}% net`,
+          subtitle: `${arb.event} · ${MARKET_LABELS[arb.market] ?? arb.market} · ${formatStartTime(arb.startTime)}`,
+        },
+        sections: [strategy, outcomes, ...alternativesSection, { widgets: [{ buttonList: { buttons } }] }],
+      },
+    }],
+  };
+}
+
+/**
+ * Card for a bookie-vs-bookie arb - one widget and one button per leg
+ */
+export function buildBookieArbCard(arb: BookieArbOpportunity): GoogleChatCard {
+  return {
+    cardsV2: [{
+      cardId: `bookie-arb-${arb.id}`,
+      card: {
+        header: {
+          title: `🔀 BOOKIE ARB: ${(arb.profitMargin * 100).toFixed(2)}%`,
+          subtitle: `${arb.event} · ${MARKET_LABELS[arb.market] ?? arb.market} · ${formatStartTime(arb.startTime)}`,
+        },
+        sections: [
+          {
+            header: 'Legs',
+            widgets: arb.legs.map((leg) => ({
+              decoratedText: {
+                topLabel: leg.bookie,
+                text: `Back <b>$${leg.stake}</b> on <b>${leg.selection}</b> @ ${leg.odds}`,
+                bottomLabel: `Returns $${leg.payout.toFixed(2)}`,
+              },
+            })),
+          },
+          {
+            widgets: [
+              { decoratedText: { topLabel: 'Total staked', text: `$${arb.totalStake}` } },
+              { decoratedText: { topLabel: 'Guaranteed profit', text: formatPnl(arb.guaranteedProfit) } },
+            ],
+          },
+          {
+            widgets: [{
+              buttonList: {
+                buttons: arb.legs.map((leg) => linkButton(`${leg.bookie.toUpperCase()}: ${leg.selection}`, leg.bookieUrl)),
+              },
+            }],
+          },
+        ],
+      },
+    }],
+  };
+}
+
+/**
+ * Google Chat channel for the notification hub - posts to a space's incoming webhook
+ */
+export class GoogleChatNotifier implements Notifier {
+  readonly channel = 'googlechat';
+  private webhookUrl: string;
+
+  constructor(webhookUrl: string) {
+    this.webhookUrl = webhookUrl;
+  }
+
+  async sendArbAlert(alert: ArbAlert): Promise<string | null> {
+    return await this.post(buildArbCard(alert), `arb ${alert.arb.id}`);
+  }
+
+  async sendBookieArbAlert(arb: BookieArbOpportunity): Promise<boolean> {
+    return await this.post(buildBookieArbCard(arb), `bookie arb ${arb.id}`) !== null;
+  }
+
+  async sendSystemAlert(alert: SystemAlert): Promise<boolean> {
+    const text = `${SYSTEM_ALERT_ICONS[alert.level]} *${alert.title}*${alert.detail ? `\n${alert.detail}` : ''}`;
+    return await this.post({ text }, `${alert.kind} alert`) !== null;
+  }
+
+  /**
+   * Returns the created message's name (spaces/.../messages/...), or null if sending failed
+   */
+  private async post(body: GoogleChatCard | { text: string }, label: string): Promise<string | null> {
+    try {
+      const res = await fetch(this.webhookUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json; charset=UTF-8' },
+        body: JSON.stringify(body),
+      });
+
+      if (!res.ok) {
+        const errorText = await res.text();
+        console.error('Google Chat Error:', errorText);
+        return null;
+      }
+
+      const data = await res.json() as { name: string };
+      console.log(`✅ Google Chat ${label} sent`);
+      return data.name;
+    } catch (error) {
+      console.error(`Failed to send Google Chat ${label}:`, error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,67 @@
+// Health - Scan heartbeat, Betfair session and Odds-API quota, shared by /health and the health alert cron
+
+import { isSydneyDaytime, POLLING_INTERVALS } from './config.ts';
+import type { Config } from './config.ts';
+import type { BetfairAuth } from './betfairAuth.ts';
+import type { QuotaManager, QuotaState } from './quotaManager.ts';
+import type { SettingsStore } from './settings.ts';
+import type { ScanSummary } from './botCommands.ts';
+
+const STALE_SCAN_INTERVALS = 3; // A tier is stale after missing this many scans
+const BETFAIR_SESSION_MAX_AGE_MS = 4 * 60 * 60 * 1000; // Matches the cached session lifetime
+
+export interface HealthDeps {
+  kv: Deno.Kv;
+  config: Config;
+  settings: SettingsStore;
+  quotaManager: QuotaManager;
+  betfairAuth: BetfairAuth;
+}
+
+export interface HealthReport {
+  status: 'ok' | 'degraded';
+  problems: string[]; // Why it's degraded, e.g. "TIER_1 scan stale"
+  mockMode: boolean;
+  paused: boolean;
+  daytime: boolean;
+  scans: Record<string, ScanSummary & { stale: boolean } | null>;
+  betfair: { sessionAgeMs: number | null; sessionValid: boolean };
+  quota: QuotaState | null;
+}
+
+export async function getHealthReport(deps: HealthDeps): Promise<HealthReport> {
+  const { kv, config, settings, quotaManager, betfairAuth } = deps;
+  const current = await settings.load();
+  const daytime = isSydneyDaytime();
+  const now = Date.now();
+  const problems: string[] = [];
+
+  const scans: HealthReport['scans'] = {};
+  for (const tier of ['TIER_1', 'TIER_2'] as const) {
+    const scan = (await kv.get<ScanSummary>(['last_scan', tier])).value;
+    // Scans only run in Sydney daytime and while not paused - a quiet night isn't unhealthy
+    const stale = daytime && !current.paused &&
+      (!scan || now - new Date(scan.at).getTime() > STALE_SCAN_INTERVALS * POLLING_INTERVALS[tier]);
+    if (stale) problems.push(`${tier} scan stale`);
+    scans[tier] = scan ? { ...scan, stale } : null;
+  }
+
+  const quota = await quotaManager.getState();
+  if (quota?.remaining === 0) problems.push('Odds-API quota exhausted');
+
+  const sessionAge = await betfairAuth.getSessionAge();
+
+  return {
+    status: problems.length === 0 ? 'ok' : 'degraded',
+    problems,
+    mockMode: config.mockMode,
+    paused: current.paused,
+    daytime,
+    scans,
+    betfair: {
+      sessionAgeMs: sessionAge,
+      sessionValid: sessionAge !== null && sessionAge < BETFAIR_SESSION_MAX_AGE_MS,
+    },
+    quota,
+  };
+}
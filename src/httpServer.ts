@@ -0,0 +1,135 @@
+// HTTP Server - Hono API (/health, /arbs, /config), server-sent events stream and the live dashboard
+
+import { Hono } from 'hono';
+import { POLLING_INTERVALS } from './config.ts';
+import { getHealthReport } from './health.ts';
+import type { HealthDeps } from './health.ts';
+import { parseFeedFilter } from './arbFeed.ts';
+import type { ArbFeed, FeedEntry } from './arbFeed.ts';
+import type { SportsRegistry } from './sportsConfig.ts';
+
+const SSE_KEEPALIVE_MS = 25000; // Comment line so proxies don't drop an idle stream
+const DASHBOARD_URL = new URL('../static/dashboard.html', import.meta.url);
+
+export interface HttpServerDeps extends HealthDeps {
+  arbFeed: ArbFeed;
+  sports: SportsRegistry;
+}
+
+/**
+ * Build the Hono app - exported separately from startHttpServer so it can be served elsewhere (e.g. Deno Deploy)
+ */
+export function createHttpApp(deps: HttpServerDeps): Hono {
+  const { config, settings, arbFeed, sports } = deps;
+  const app = new Hono();
+
+  // Token - stakes and bookies shouldn't be public (required off localhost)
+  // EventSource can't send headers, hence ?token=
+  app.use('*', async (c, next) => {
+    if (config.httpApiToken && c.req.path !== '/health') {
+      const bearer = c.req.header('Authorization')?.replace(/^Bearer\s+/i, '');
+      if ((bearer ?? c.req.query('token')) !== config.httpApiToken) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+    }
+    await next();
+  });
+
+  app.get('/', async (c) => c.html(await Deno.readTextFile(DASHBOARD_URL)));
+
+  app.get('/health', async (c) => {
+    const report = await getHealthReport(deps);
+    return c.json({ ...report, streamSubscribers: arbFeed.subscriberCount }, report.status === 'ok' ? 200 : 503);
+  });
+
+  app.get('/arbs', async (c) => {
+    const filter = parseFeedFilter({
+      sport: c.req.query('sport'),
+      bookie: c.req.query('bookie'),
+      market: c.req.query('market'),
+      minMargin: c.req.query('minMargin'),
+      since: c.req.query('since'),
+      limit: c.req.query('limit'),
+    });
+    if (typeof filter === 'string') {
+      return c.json({ error: filter }, 400);
+    }
+    const entries = await arbFeed.list(filter);
+    return c.json({ count: entries.length, arbs: entries });
+  });
+
+  app.get('/config', async (c) => {
+    const current = await settings.load();
+    // Effective values only - no API keys or credentials
+    return c.json({
+      sports: sports.list().map((sport) => ({
+        ...sport,
+        minNetMargin: sport.minNetMargin ?? current.minNetMargin,
+        enabled: sport.enabled && !current.disabledSports.includes(sport.key),
+      })),
+      pollingIntervalsMs: POLLING_INTERVALS,
+      daytimeHours: { start: 7, end: 23, timeZone: 'Australia/Sydney' },
+      oddsMarkets: config.oddsMarkets,
+      bookieArbsEnabled: config.bookieArbsEnabled,
+      betfairStreamEnabled: config.betfairStreamEnabled,
+      autoLayMode: config.autoLayMode,
+      settings: current,
+    });
+  });
+
+  // One "arb" event per processed opportunity, as published by the scan
+  app.get('/arbs/stream', (c) => {
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const send = (chunk: string) => {
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            cleanup(); // Client went away between the close and the cancel
+          }
+        };
+        const unsubscribe = arbFeed.subscribe((entry: FeedEntry) => {
+          send(`event: arb\nid: ${entry.arb.id}\ndata: ${JSON.stringify(entry)}\n\n`);
+        });
+        const keepalive = setInterval(() => send(': keepalive\n\n'), SSE_KEEPALIVE_MS);
+        cleanup = () => {
+          clearInterval(keepalive);
+          unsubscribe();
+        };
+        send('retry: 5000\n\n');
+      },
+      cancel() {
+        cleanup();
+      },
+    });
+
+    c.req.raw.signal.addEventListener('abort', () => cleanup());
+    return new Response(body, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      },
+    });
+  });
+
+  return app;
+}
+
+/**
+ * Serve the API on config.httpHost:httpPort (port 0 disables it)
+ */
+export function startHttpServer(deps: HttpServerDeps): Deno.HttpServer | null {
+  if (deps.config.httpPort === 0) {
+    return null;
+  }
+  const app = createHttpApp(deps);
+  return Deno.serve({
+    hostname: deps.config.httpHost,
+    port: deps.config.httpPort,
+    onListen: ({ hostname, port }) => console.log(`🌐 HTTP API listening on http://${hostname}:${port}`),
+  }, app.fetch);
+}
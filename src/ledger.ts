@@ -0,0 +1,390 @@
+// Bet Ledger - Both legs of each arb, Betfair settlement and P&L reporting
+
+import { getSydneyDateKey } from './config.ts';
+import type { BetfairService } from './betfairService.ts';
+import type { BookieAccountStore } from './bookieAccounts.ts';
+import { calculatePosition } from './pricing.ts';
+import { escapeHtml } from './telegramBot.ts';
+import type { TelegramBot } from './telegramBot.ts';
+import type { ArbOpportunity, BetfairClearedOrder } from './types.ts';
+
+const CLEARED_ORDERS_BATCH = 100; // Markets per listClearedOrders call
+const SETTLEMENT_WINDOW_MS = 7 * 24 * 60 * 60 * 1000; // Stop looking for a lay's settlement a week after the start
+
+export type LegResult = 'WON' | 'LOST' | 'VOID';
+export type PnlGrouping = 'day' | 'sport' | 'bookie';
+
+/**
+ * The arb a ledger entry belongs to - what settlement and expected P&L need
+ */
+export interface LedgerArb {
+  arbId: string;
+  ref: string; // Short id shown in Telegram (same as the alert buttons')
+  event: string;
+  sport: string;
+  market: string;
+  selection: string;
+  bookie: string;
+  startTime: string; // ISO Date
+  suggestedStake: number;
+  bookieOdds: number;
+  betfairMarketId: string;
+  betfairSelectionId: number;
+  betfairHandicap?: number;
+  commissionRate: number;
+  layVwap: number; // Expected lay price
+}
+
+export interface BackLeg {
+  stake: number;
+  odds: number;
+  result?: LegResult;
+  profit?: number;
+  settledAt?: string; // ISO Date
+}
+
+export interface LayLeg {
+  betIds: string[]; // Empty for manual lays until settlement finds them
+  stake: number;
+  odds: number; // Average matched price
+  result?: LegResult;
+  profit?: number; // Net of commission
+  settledAt?: string; // ISO Date
+}
+
+/**
+ * One alerted arb that was bet, under ['ledger', ref] - the arb id repeats when the same selection is alerted again
+ */
+export interface LedgerEntry extends LedgerArb {
+  day: string; // Sydney date the first leg was recorded
+  createdAt: string; // ISO Date
+  back?: BackLeg;
+  lay?: LayLeg;
+  expectedProfit: number; // Worst-outcome profit at the recorded stakes and prices
+  realisedProfit?: number; // Set once both legs are settled
+}
+
+export interface PnlRow {
+  bets: number;
+  settled: number;
+  staked: number; // Back stakes
+  expected: number; // Expected profit across all bets
+  expectedSettled: number; // Expected profit of the settled bets - compare with realised
+  realised: number;
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Copy only the LedgerArb fields (callers may pass a wider record, e.g. an AlertRecord)
+ */
+function pickLedgerArb(arb: LedgerArb): LedgerArb {
+  const { arbId, ref, event, sport, market, selection, bookie, startTime, suggestedStake, bookieOdds } = arb;
+  const { betfairMarketId, betfairSelectionId, betfairHandicap, commissionRate, layVwap } = arb;
+  return {
+    arbId,
+    ref,
+    event,
+    sport,
+    market,
+    selection,
+    bookie,
+    startTime,
+    suggestedStake,
+    bookieOdds,
+    betfairMarketId,
+    betfairSelectionId,
+    ...(betfairHandicap !== undefined ? { betfairHandicap } : {}),
+    commissionRate,
+    layVwap,
+  };
+}
+
+export function ledgerArbFromArb(arb: ArbOpportunity, ref: string): LedgerArb {
+  return pickLedgerArb({ ...arb, arbId: arb.id, ref });
+}
+
+/**
+ * Worst-outcome profit for the legs recorded so far
+ * A missing back leg is assumed at the suggested stake; a missing lay leg at the equalised stake and VWAP
+ */
+export function calculateExpectedProfit(entry: LedgerEntry): number {
+  const back = entry.back ?? { stake: entry.suggestedStake, odds: entry.bookieOdds };
+  const lay = entry.lay ?? {
+    stake: calculatePosition(back.stake, back.odds, entry.layVwap, entry.commissionRate).layStake,
+    odds: entry.layVwap,
+  };
+  const ifBackWins = back.stake * (back.odds - 1) - lay.stake * (lay.odds - 1);
+  const ifBackLoses = lay.stake * (1 - entry.commissionRate) - back.stake;
+  return roundCents(Math.min(ifBackWins, ifBackLoses));
+}
+
+function backProfit(back: BackLeg, result: LegResult): number {
+  if (result === 'WON') return roundCents(back.stake * (back.odds - 1));
+  if (result === 'LOST') return -back.stake;
+  return 0;
+}
+
+/**
+ * What a back leg has done to the bookie balance: the stake leaves when placed, the return comes back on settlement
+ */
+function backBalanceEffect(back: BackLeg | undefined): number {
+  if (!back) return 0;
+  return back.result ? backProfit(back, back.result) : -back.stake;
+}
+
+/**
+ * Fold a runner's cleared LAY orders into a settled lay leg
+ * Commission is applied to net winnings at the arb's rate (Betfair only reports it per market)
+ */
+function settleLayLeg(orders: Array<BetfairClearedOrder & { voided: boolean }>, commissionRate: number): LayLeg {
+  const settled = orders.filter((order) => !order.voided);
+  const stake = settled.reduce((total, order) => total + (order.sizeSettled ?? 0), 0);
+  const cost = settled.reduce((total, order) => total + (order.sizeSettled ?? 0) * (order.priceMatched ?? 0), 0);
+  const gross = settled.reduce((total, order) => total + (order.profit ?? 0), 0);
+
+  return {
+    betIds: orders.map((order) => order.betId),
+    stake: roundCents(stake),
+    odds: stake > 0 ? Math.round((cost / stake) * 100) / 100 : 0,
+    result: settled.length === 0 ? 'VOID' : gross > 0 ? 'WON' : 'LOST',
+    profit: roundCents(gross > 0 ? gross * (1 - commissionRate) : gross),
+    settledAt: new Date().toISOString(),
+  };
+}
+
+export class BetLedger {
+  private kv: Deno.Kv;
+  private bookieAccounts: BookieAccountStore | null;
+
+  /**
+   * With bookieAccounts, recording and settling back legs moves the bookie's tracked balance
+   */
+  constructor(kv: Deno.Kv, bookieAccounts: BookieAccountStore | null = null) {
+    this.kv = kv;
+    this.bookieAccounts = bookieAccounts;
+  }
+
+  async get(ref: string): Promise<LedgerEntry | null> {
+    return (await this.kv.get<LedgerEntry>(['ledger', ref])).value;
+  }
+
+  /**
+   * Record (or correct) the bookie back leg
+   * Returns null, changing nothing, once the back leg has been settled
+   */
+  async recordBack(arb: LedgerArb, stake: number, odds: number): Promise<LedgerEntry | null> {
+    if ((await this.get(arb.ref))?.back?.result) {
+      return null;
+    }
+
+    let balanceDelta = 0;
+    const entry = await this.upsert(arb, (entry) => {
+      const previous = entry.back;
+      entry.back = { stake, odds };
+      balanceDelta = backBalanceEffect(entry.back) - backBalanceEffect(previous);
+    });
+    await this.bookieAccounts?.adjustBalance(entry.bookie, balanceDelta);
+    return entry;
+  }
+
+  /**
+   * Record a Betfair lay placed by the bot (auto-lay)
+   */
+  async recordLay(arb: LedgerArb, lay: { betId: string; stake: number; odds: number }): Promise<LedgerEntry> {
+    return await this.upsert(arb, (entry) => {
+      entry.lay = { betIds: [lay.betId], stake: lay.stake, odds: lay.odds };
+    });
+  }
+
+  /**
+   * Settle the bookie leg by hand (bookies have no settlement API)
+   */
+  async settleBack(ref: string, result: LegResult): Promise<LedgerEntry | null> {
+    const entry = await this.get(ref);
+    if (!entry?.back) return null;
+
+    const previous = entry.back;
+    entry.back = {
+      ...entry.back,
+      result,
+      profit: backProfit(entry.back, result),
+      settledAt: new Date().toISOString(),
+    };
+    const saved = await this.save(entry);
+    await this.bookieAccounts?.adjustBalance(entry.bookie, backBalanceEffect(entry.back) - backBalanceEffect(previous));
+    return saved;
+  }
+
+  /**
+   * Settle Betfair legs from listClearedOrders for entries whose event started in the last week
+   * Each cleared bet settles at most one entry: the bot's own bet ids, otherwise the earliest
+   * unsettled entry on the runner (manual lays) from the bets no other entry has claimed.
+   * Returns legs settled.
+   */
+  async settleBetfairLegs(betfairService: BetfairService, now = new Date()): Promise<number> {
+    const entries = await this.list();
+    const claimed = new Set(entries.flatMap((entry) => entry.lay?.betIds ?? []));
+    const pending = entries.filter((entry) => {
+      const sinceStart = now.getTime() - new Date(entry.startTime).getTime();
+      return !entry.lay?.result && sinceStart > 0 && sinceStart < SETTLEMENT_WINDOW_MS;
+    });
+    const marketIds = [...new Set(pending.map((entry) => entry.betfairMarketId))];
+
+    let settled = 0;
+    for (let i = 0; i < marketIds.length; i += CLEARED_ORDERS_BATCH) {
+      const orders = await betfairService.listClearedOrders(marketIds.slice(i, i + CLEARED_ORDERS_BATCH));
+
+      // In time order, so a manual lay goes to the first arb on the runner still waiting for one
+      for (const entry of pending) {
+        const betIds = entry.lay?.betIds ?? [];
+        const matches = orders.filter((order) =>
+          order.side === 'LAY' &&
+          order.marketId === entry.betfairMarketId &&
+          order.selectionId === entry.betfairSelectionId &&
+          (entry.betfairHandicap === undefined || (order.handicap ?? 0) === entry.betfairHandicap) &&
+          (betIds.length > 0 ? betIds.includes(order.betId) : !claimed.has(order.betId))
+        );
+        if (matches.length === 0) continue;
+
+        entry.lay = settleLayLeg(matches, entry.commissionRate);
+        for (const order of matches) claimed.add(order.betId);
+        await this.save(entry);
+        settled++;
+      }
+    }
+    return settled;
+  }
+
+  /**
+   * Entries in time order, optionally limited to Sydney days [from, to] (YYYY-MM-DD, inclusive)
+   */
+  async list(range: { from?: string; to?: string } = {}): Promise<LedgerEntry[]> {
+    const entries: LedgerEntry[] = [];
+    for await (const entry of this.kv.list<LedgerEntry>({ prefix: ['ledger'] })) {
+      const { day } = entry.value;
+      if ((range.from && day < range.from) || (range.to && day > range.to)) continue;
+      entries.push(entry.value);
+    }
+    return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  private async upsert(arb: LedgerArb, update: (entry: LedgerEntry) => void): Promise<LedgerEntry> {
+    const now = new Date();
+    const entry: LedgerEntry = await this.get(arb.ref) ?? {
+      ...pickLedgerArb(arb),
+      day: getSydneyDateKey(now),
+      createdAt: now.toISOString(),
+      expectedProfit: 0,
+    };
+    update(entry);
+    return await this.save(entry);
+  }
+
+  private async save(entry: LedgerEntry): Promise<LedgerEntry> {
+    entry.expectedProfit = calculateExpectedProfit(entry);
+    if (entry.back?.result && entry.lay?.result) {
+      entry.realisedProfit = roundCents((entry.back.profit ?? 0) + (entry.lay.profit ?? 0));
+    }
+
+    // The ledger is the money record - no expiry
+    await this.kv.set(['ledger', entry.ref], entry);
+    return entry;
+  }
+}
+
+/**
+ * Group P&L by Sydney day, sport or bookie
+ */
+export function summarisePnl(entries: LedgerEntry[], by: PnlGrouping): Record<string, PnlRow> {
+  const rows: Record<string, PnlRow> = {};
+  for (const entry of entries) {
+    const key = by === 'day' ? entry.day : by === 'sport' ? entry.sport : entry.bookie;
+    const row = rows[key] ??= { bets: 0, settled: 0, staked: 0, expected: 0, expectedSettled: 0, realised: 0 };
+
+    row.bets++;
+    row.staked += entry.back?.stake ?? 0;
+    row.expected += entry.expectedProfit;
+    if (entry.realisedProfit !== undefined) {
+      row.settled++;
+      row.expectedSettled += entry.expectedProfit;
+      row.realised += entry.realisedProfit;
+    }
+  }
+  for (const row of Object.values(rows)) {
+    row.staked = roundCents(row.staked);
+    row.expected = roundCents(row.expected);
+    row.expectedSettled = roundCents(row.expectedSettled);
+    row.realised = roundCents(row.realised);
+  }
+  return rows;
+}
+
+function formatPnlRows(rows: Record<string, PnlRow>): string {
+  return Object.entries(rows)
+    .map(([name, row]) =>
+      `${escapeHtml(name)}: ${row.bets} bets, realised $${row.realised.toFixed(2)} vs expected ` +
+      `$${row.expectedSettled.toFixed(2)} (${row.settled} settled)`
+    )
+    .join('\n');
+}
+
+/**
+ * /pnl, /bets and /settle
+ */
+export function registerLedgerCommands(bot: TelegramBot, ledger: BetLedger): void {
+  bot.onCommand('pnl', 'P&L per day, sport and bookie, e.g. /pnl 7', async (args) => {
+    const days = Math.max(1, parseInt(args[0] ?? '7', 10) || 7);
+    const from = getSydneyDateKey(new Date(Date.now() - (days - 1) * 86400000));
+    const entries = await ledger.list({ from });
+    if (entries.length === 0) {
+      return `No bets in the last ${days} days`;
+    }
+
+    const open = entries.reduce((total, entry) => total + (entry.realisedProfit === undefined ? entry.expectedProfit : 0), 0);
+    return [
+      `<b>P&amp;L - last ${days} days</b>`,
+      formatPnlRows(summarisePnl(entries, 'day')),
+      '\n<b>By sport</b>',
+      formatPnlRows(summarisePnl(entries, 'sport')),
+      '\n<b>By bookie</b>',
+      formatPnlRows(summarisePnl(entries, 'bookie')),
+      `\nUnsettled: expected $${open.toFixed(2)}`,
+    ].join('\n');
+  });
+
+  bot.onCommand('bets', 'Unsettled bets with their refs', async () => {
+    const open = (await ledger.list()).filter((entry) => entry.realisedProfit === undefined);
+    if (open.length === 0) {
+      return 'No unsettled bets';
+    }
+    const lines = open.map((entry) => {
+      const back = entry.back
+        ? `back $${entry.back.stake} @ ${entry.back.odds}${entry.back.result ? ` ${entry.back.result}` : ''}`
+        : 'back not recorded';
+      const lay = entry.lay
+        ? `lay $${entry.lay.stake} @ ${entry.lay.odds}${entry.lay.result ? ` ${entry.lay.result}` : ''}`
+        : 'lay pending';
+      return `<code>${entry.ref}</code> ${escapeHtml(entry.selection)} at ${escapeHtml(entry.bookie)} - ${back}, ${lay}`;
+    });
+    return `<b>Unsettled bets</b>\n${lines.join('\n')}\n\nSettle the bookie leg with /settle ref won|lost|void`;
+  });
+
+  bot.onCommand('settle', 'Settle a bookie leg: /settle ref won|lost|void', async ([ref, result]) => {
+    const outcome = result?.toUpperCase() as LegResult;
+    if (!ref || !['WON', 'LOST', 'VOID'].includes(outcome)) {
+      return 'Usage: /settle ref won|lost|void (refs are listed by /bets)';
+    }
+
+    const entry = await ledger.settleBack(ref, outcome);
+    if (!entry) {
+      return `No recorded back bet for ref ${escapeHtml(ref)}`;
+    }
+    console.log(`📒 ${entry.arbId} bookie leg settled ${outcome}`);
+    return entry.realisedProfit !== undefined
+      ? `📒 Settled - realised $${entry.realisedProfit.toFixed(2)} vs expected $${entry.expectedProfit.toFixed(2)}`
+      : `📒 Bookie leg ${outcome} ($${entry.back?.profit?.toFixed(2)}) - waiting for Betfair settlement`;
+  });
+}
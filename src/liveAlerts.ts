@@ -0,0 +1,150 @@
+// Live Alerts - Keep sent Telegram arb alerts current: re-priced on later scans, struck through once the arb closes
+
+import type { ArbOpportunity } from './types.ts';
+import type { ArbAlert } from './notifier.ts';
+import { applyArbStake } from './pricing.ts';
+import { buildArbAlertKeyboard, formatArbAlertText } from './notifications.ts';
+import { withStatusRow } from './alertActions.ts';
+import type { AlertActionStore } from './alertActions.ts';
+import type { TelegramBot } from './telegramBot.ts';
+import { CLOSE_REASON_LABELS } from './arbLifecycle.ts';
+import type { ArbCloseReason, ArbLifecycle } from './arbLifecycle.ts';
+
+const LIVE_ALERT_TTL_MS = 2 * 24 * 60 * 60 * 1000; // Well past kickoff for anything we alert on
+
+/**
+ * A sent Telegram alert and the prices it currently shows, under ['live_alert', arbId]
+ */
+export interface LiveAlert {
+  arbId: string;
+  messageId: number;
+  arb: ArbOpportunity; // As currently shown
+  backStake: number; // Stake alerted - re-pricing sizes from this (the ladder may take less)
+  autoLayStatus: string;
+  alternatives: ArbOpportunity[];
+  actionRef?: string;
+  firstNetMargin: number;
+  sentAt: string; // ISO Date
+  updatedAt: string; // ISO Date - last re-price shown
+  closedAt?: string; // ISO Date - set once GONE
+  closeReason?: ArbCloseReason;
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString('en-AU', { timeZone: 'Australia/Sydney', timeStyle: 'short' });
+}
+
+function formatDuration(fromIso: string, toIso: string): string {
+  const minutes = Math.round((new Date(toIso).getTime() - new Date(fromIso).getTime()) / 60000);
+  return minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+/**
+ * Whether the prices shown in the alert are out of date
+ */
+function pricesChanged(shown: ArbOpportunity, current: ArbOpportunity): boolean {
+  return shown.bookieOdds !== current.bookieOdds ||
+    shown.layOdds !== current.layOdds ||
+    shown.suggestedStake !== current.suggestedStake ||
+    Math.abs(shown.layVwap - current.layVwap) >= 0.001;
+}
+
+export class LiveAlertTracker {
+  private kv: Deno.Kv;
+  private bot: TelegramBot;
+  private alertActions: AlertActionStore;
+
+  constructor(kv: Deno.Kv, bot: TelegramBot, alertActions: AlertActionStore) {
+    this.kv = kv;
+    this.bot = bot;
+    this.alertActions = alertActions;
+  }
+
+  /**
+   * Remember a sent alert so later scans can edit it
+   */
+  async track(messageId: number, alert: ArbAlert): Promise<void> {
+    const now = new Date().toISOString();
+    await this.kv.set(['live_alert', alert.arb.id], {
+      arbId: alert.arb.id,
+      messageId,
+      arb: alert.arb,
+      backStake: alert.arb.suggestedStake,
+      autoLayStatus: alert.autoLayStatus,
+      alternatives: alert.alternatives,
+      actionRef: alert.actionRef,
+      firstNetMargin: alert.arb.netMargin,
+      sentAt: now,
+      updatedAt: now,
+    } satisfies LiveAlert, { expireIn: LIVE_ALERT_TTL_MS });
+  }
+
+  /**
+   * Re-price live alerts for arbs detected again this scan (still sized at the alerted back stake)
+   * Returns the number of messages edited
+   */
+  async refresh(opportunities: ArbOpportunity[]): Promise<number> {
+    let edited = 0;
+    for (const opportunity of opportunities) {
+      const record = (await this.kv.get<LiveAlert>(['live_alert', opportunity.id])).value;
+      if (!record || record.closedAt) continue;
+
+      const current = applyArbStake({ ...opportunity }, record.backStake);
+      if (!pricesChanged(record.arb, current)) continue;
+
+      const updated: LiveAlert = { ...record, arb: current, updatedAt: new Date().toISOString() };
+      if (await this.render(updated)) edited++;
+    }
+    return edited;
+  }
+
+  /**
+   * Strike through the live alerts for arbs whose lifecycle just closed (see ArbLifecycleStore.sweep)
+   * The sweep lifted the arb's dedupe, so if it comes back it gets a fresh alert
+   * Returns the number of alerts marked GONE
+   */
+  async markGone(closed: ArbLifecycle[]): Promise<number> {
+    let gone = 0;
+    for (const lifecycle of closed) {
+      const record = (await this.kv.get<LiveAlert>(['live_alert', lifecycle.arbId])).value;
+      if (!record || record.closedAt || !lifecycle.closedAt) continue;
+
+      if (await this.render({ ...record, closedAt: lifecycle.closedAt, closeReason: lifecycle.closeReason })) gone++;
+    }
+    return gone;
+  }
+
+  /**
+   * Edit the Telegram message to match the record, then save it
+   * The action row (or its recorded status) is rebuilt, as editMessageText replaces the keyboard
+   */
+  private async render(record: LiveAlert): Promise<boolean> {
+    const action = record.actionRef ? await this.alertActions.get(record.actionRef) : null;
+    const baseKeyboard = buildArbAlertKeyboard(record.arb, record.alternatives, record.actionRef);
+    const keyboard = action?.action ? withStatusRow(baseKeyboard, action) : baseKeyboard;
+
+    const body = formatArbAlertText(record.arb, record.autoLayStatus, record.alternatives).trim();
+    const firstPct = (record.firstNetMargin * 100).toFixed(2);
+    const text = record.closedAt
+      ? `❌ <b>GONE</b> at ${formatTime(record.closedAt)} ` +
+        `(${CLOSE_REASON_LABELS[record.closeReason ?? 'kickoff']}, live ${formatDuration(record.sentAt, record.closedAt)})\n\n` +
+        `<s>${body}</s>`
+      : `${body}\n\n🔄 <i>Live - updated ${formatTime(record.updatedAt)}, ` +
+        `first alerted ${formatTime(record.sentAt)} at ${firstPct}%</i>`;
+
+    try {
+      await this.bot.editMessageText(record.messageId, text, keyboard);
+    } catch (error) {
+      console.error(`Failed to update live alert for ${record.arbId}:`, error instanceof Error ? error.message : error);
+      return false;
+    }
+
+    await this.kv.set(['live_alert', record.arbId], record, { expireIn: LIVE_ALERT_TTL_MS });
+    console.log(
+      record.closedAt
+        ? `❌ Alert for ${record.arbId} marked GONE (${record.closeReason})`
+        : `🔄 Alert for ${record.arbId} re-priced: ${(record.arb.netMargin * 100).toFixed(2)}% net`,
+    );
+    return true;
+  }
+}
@@ -1,31 +1,134 @@
 // Main orchestration - Tiered polling and arbitrage processing
 
-import { loadConfig, SPORT_KEYS, SPORT_TIERS, isSydneyDaytime, getBetfairIdFromKey } from './config.ts';
+import { loadConfig, isSydneyDaytime, getSydneyDateKey } from './config.ts';
+import { isWithinActiveHours, SportsRegistry } from './sportsConfig.ts';
+import type { SportConfig, SportTier } from './sportsConfig.ts';
 import { ArbEngine } from './arbEngine.ts';
 import { BetfairAuth } from './betfairAuth.ts';
 import { BetfairService } from './betfairService.ts';
+import type { MarketCatalogueEntry } from './betfairService.ts';
+import { BetfairStreamClient } from './betfairStream.ts';
+import { AutoLayExecutor } from './autoLay.ts';
+import { SettingsStore } from './settings.ts';
+import { TelegramBot } from './telegramBot.ts';
+import { registerBotCommands } from './botCommands.ts';
+import { AlertActionStore, registerAlertActions } from './alertActions.ts';
+import { LiveAlertTracker } from './liveAlerts.ts';
+import { ArbLifecycleStore, formatDurationStats, lifecycleMinutes, summariseDurations } from './arbLifecycle.ts';
+import { BetLedger, ledgerArbFromArb, registerLedgerCommands } from './ledger.ts';
+import {
+  BookieAccountStore,
+  clampStakeToAccount,
+  isBookieUsable,
+  MIN_BACK_STAKE,
+  normaliseBookie,
+  registerBookieAccountCommands,
+} from './bookieAccounts.ts';
+import type { BookieAccountMap } from './bookieAccounts.ts';
+import { ArbFeed } from './arbFeed.ts';
+import { startHttpServer } from './httpServer.ts';
+import type { ScanSummary } from './botCommands.ts';
 import { fetchOdds, parseOddsResponse, QuotaExhaustedError } from './oddsService.ts';
-import { detectArb } from './arbDetector.ts';
-import { calculateGreyManStake, calculateLiability } from './utils.ts';
-import { sendTelegramAlert, sendQuotaExhaustionAlert } from './notifications.ts';
-import { generateMockArb } from './mockData.ts';
-import type { ArbOpportunity } from './types.ts';
+import { QuotaManager } from './quotaManager.ts';
+import { SnapshotRecorder } from './snapshotRecorder.ts';
+import type { QuotaUsage } from './quotaManager.ts';
+import { DEFAULT_DETECTION_THRESHOLDS, detectArb, rankArbs } from './arbDetector.ts';
+import { detectBookieArbs } from './bookieArbDetector.ts';
+import { getBetfairMarketSpecs } from './marketMapping.ts';
+import type { BetfairMarketSpec } from './marketMapping.ts';
+import { TeamAliasStore } from './entityResolution.ts';
+import { applyArbStake, calculatePosition, priceArb, resolveCommissionRate, splitBookieStakes } from './pricing.ts';
+import { calculateGreyManStake } from './utils.ts';
+import { NotificationHub } from './notifier.ts';
+import type { Notifier } from './notifier.ts';
+import { TelegramNotifier } from './notifications.ts';
+import { GoogleChatNotifier } from './googleChat.ts';
+import { WebhookNotifier } from './webhook.ts';
+import { getHealthReport } from './health.ts';
+import type { HealthReport } from './health.ts';
+import { generateMockArb, mockAutoLayBetfair } from './mockData.ts';
+import type { ArbOpportunity, BetfairMarketPrices, BookieArbOpportunity } from './types.ts';
 
-// Initialize KV
-const kv = await Deno.openKv();
+// Initialize KV (DENO_KV_PATH pins the database file, e.g. so the backtest can read snapshots)
+const kv = await Deno.openKv(Deno.env.get('DENO_KV_PATH') || undefined);
 
 // Load configuration
 const config = loadConfig();
 
+// Alerts fan out to every channel in NOTIFY_CHANNELS
+const notifier = new NotificationHub(config.notifyChannels.map((channel): Notifier => {
+  switch (channel) {
+    case 'googlechat':
+      return new GoogleChatNotifier(config.googleChatWebhookUrl as string);
+    case 'webhook':
+      return new WebhookNotifier(config.webhookUrls, config.webhookSecret as string);
+    default:
+      return new TelegramNotifier(config.telegramBotToken, config.telegramChatId);
+  }
+}));
+
 // Initialize services
-const arbEngine = new ArbEngine(kv);
+const settingsStore = new SettingsStore(kv, config);
+let settings = await settingsStore.load(); // Reloaded every scan - Telegram commands write to KV
+const arbEngine = new ArbEngine(kv, { minProfitMargin: settings.minNetMargin });
 const betfairAuth = new BetfairAuth(
   kv,
   config.betfairAppKey,
   config.betfairUsername,
   config.betfairPassword,
+  (error) => handleBetfairLoginFailure(error),
 );
-const betfairService = new BetfairService(betfairAuth, config.betfairAppKey);
+const betfairService = new BetfairService(betfairAuth, config.betfairAppKey, kv);
+const teamAliasStore = new TeamAliasStore(kv);
+// Sports from sports.json - edits are picked up at the start of each tier scan
+const sportsRegistry = new SportsRegistry(config.sportsConfigPath, config.sports, config.oddsMarkets);
+const quotaManager = new QuotaManager(kv, config.quotaResetDay, config.quotaWarnThresholds, sportsRegistry);
+const snapshotRecorder = config.recordSnapshots
+  ? new SnapshotRecorder(kv, config.snapshotRetentionDays)
+  : null;
+
+// Mock mode lays against the mock ladder, and never for real
+const autoLayExecutor = new AutoLayExecutor(kv, config.mockMode ? mockAutoLayBetfair() : betfairService, {
+  mode: config.mockMode && config.autoLayMode === 'live' ? 'dry-run' : config.autoLayMode,
+  maxBetLiability: config.autoLayMaxBetLiability,
+  maxDailyLiability: config.autoLayMaxDailyLiability,
+  maxBalanceFraction: config.autoLayMaxBalanceFraction,
+  ladderDepth: config.betfairLadderDepth,
+});
+
+// Stream API price cache - polling listMarketBook remains the fallback
+const betfairStream = config.betfairStreamEnabled && !config.mockMode
+  ? new BetfairStreamClient(betfairAuth, config.betfairAppKey, {
+    url: config.betfairStreamUrl,
+    ladderDepth: config.betfairLadderDepth,
+  })
+  : null;
+betfairStream?.start();
+
+// Operator commands from the configured Telegram chat
+const telegramBot = new TelegramBot(kv, config.telegramBotToken, config.telegramChatId);
+const alertActions = new AlertActionStore(kv);
+const liveAlerts = new LiveAlertTracker(kv, telegramBot, alertActions);
+const arbLifecycles = new ArbLifecycleStore(kv);
+const bookieAccountStore = new BookieAccountStore(kv);
+let bookieAccounts: BookieAccountMap = new Map(); // Reloaded every scan - /account writes to KV
+const ledger = new BetLedger(kv, bookieAccountStore);
+registerBotCommands(telegramBot, {
+  kv,
+  config,
+  settings: settingsStore,
+  quotaManager,
+  betfairAuth,
+  sports: sportsRegistry,
+});
+registerAlertActions(telegramBot, alertActions, ledger, teamAliasStore);
+registerLedgerCommands(telegramBot, ledger);
+registerBookieAccountCommands(telegramBot, bookieAccountStore);
+telegramBot.start();
+
+// HTTP API and live dashboard - every accepted arb is published to the feed
+const arbFeed = new ArbFeed(kv);
+startHttpServer({ kv, config, settings: settingsStore, quotaManager, betfairAuth, arbFeed, sports: sportsRegistry });
 
 /**
  * Handle quota exhaustion - send notification once per session
@@ -40,10 +143,11 @@ async function handleQuotaExhaustion(): Promise<void> {
   }
   
   // Send notification
-  const sent = await sendQuotaExhaustionAlert(
-    config.telegramBotToken,
-    config.telegramChatId,
-  );
+  const sent = await notifier.sendSystemAlert({
+    kind: 'quota',
+    level: 'critical',
+    title: 'ODDS API ACCESS ran out of requests quota',
+  });
   
   if (sent) {
     // Mark as notified in KV
@@ -51,6 +155,77 @@ async function handleQuotaExhaustion(): Promise<void> {
   }
 }
 
+/**
+ * Alert on a failed Betfair login - at most once an hour, as every scan retries the login
+ */
+async function handleBetfairLoginFailure(error: Error): Promise<void> {
+  const alertedKey = ['betfair_login_failure_alerted'];
+  if ((await kv.get<boolean>(alertedKey)).value) {
+    return;
+  }
+  await kv.set(alertedKey, true, { expireIn: 60 * 60 * 1000 });
+  await notifier.sendSystemAlert({
+    kind: 'betfair_login',
+    level: 'critical',
+    title: 'Betfair login failed',
+    detail: `${error.message}\nLay prices and auto-lay are unavailable until login succeeds`,
+  });
+}
+
+/**
+ * Record Odds-API usage headers and warn once per period at each threshold crossed
+ */
+async function handleQuotaUsage(sportKey: string, usage: QuotaUsage): Promise<void> {
+  const crossed = await quotaManager.recordUsage(sportKey, usage);
+  if (crossed.length === 0) {
+    return;
+  }
+
+  // Several thresholds can be crossed at once (e.g. first run mid-period) - warn at the highest
+  const threshold = Math.max(...crossed);
+  console.log(`⚠️ Odds-API quota ${threshold}% used (${usage.remaining} remaining)`);
+  await notifier.sendSystemAlert({
+    kind: 'quota',
+    level: 'warning',
+    title: `ODDS API quota ${threshold}% used`,
+    detail: `${usage.used} requests used, ${usage.remaining} remaining this period - ` +
+      'low-yield sports will be polled less',
+  });
+}
+
+/**
+ * Daytime start/end events go to webhooks only - routine, so they'd be noise in chat
+ */
+async function notifyDaytimeTransition(daytime: boolean): Promise<void> {
+  await notifier.sendSystemAlert({
+    kind: 'daytime',
+    level: 'info',
+    title: daytime ? 'Daytime started - scanning resumed' : 'Daytime ended - scanning stopped',
+  }, ['webhook']);
+}
+
+/**
+ * How long today's arbs lasted, per bookie and sport - sent to every channel when daytime ends
+ */
+async function sendLifecycleReport(): Promise<void> {
+  const today = getSydneyDateKey();
+  const closed = await arbLifecycles.listClosed({ from: today, to: today });
+  if (closed.length === 0) {
+    return;
+  }
+
+  const minutes = closed.map(lifecycleMinutes).sort((a, b) => a - b);
+  const median = minutes[Math.floor(minutes.length / 2)];
+  await notifier.sendSystemAlert({
+    kind: 'arb_lifecycle',
+    level: 'info',
+    title: `Arb lifetimes today: ${closed.length} closed, median ${median.toFixed(1)}m`,
+    detail: `By bookie\n${formatDurationStats(summariseDurations(closed, 'bookie'))}\n\n` +
+      `By sport\n${formatDurationStats(summariseDurations(closed, 'sport'))}\n\n` +
+      `Close reason\n${formatDurationStats(summariseDurations(closed, 'reason'))}`,
+  });
+}
+
 /**
  * Check for daytime transitions and log accordingly
  */
@@ -72,10 +247,13 @@ async function checkDaytimeTransition(): Promise<void> {
     // Transition from daytime to nighttime (11pm)
     console.log('Reached end of daytime - bot stopped');
     await kv.set(lastStateKey, currentDaytime);
+    await notifyDaytimeTransition(currentDaytime);
+    await sendLifecycleReport();
   } else if (!lastDaytime && currentDaytime) {
     // Transition from nighttime to daytime (7am)
     console.log('Good morning - resuming bot');
     await kv.set(lastStateKey, currentDaytime);
+    await notifyDaytimeTransition(currentDaytime);
   } else {
     // No transition - update state silently
     await kv.set(lastStateKey, currentDaytime);
@@ -83,82 +261,202 @@ async function checkDaytimeTransition(): Promise<void> {
 }
 
 /**
- * Process a single arbitrage opportunity
+ * Process a single arbitrage opportunity - size the stake and lay position, then dedupe and validate
+ * Returns true if the arb is new and valid (minNetMargin overrides /minmargin, e.g. the sport's own)
  */
-async function processArbOpportunity(arb: ArbOpportunity): Promise<void> {
-  // Calculate Grey Man stake
-  arb.suggestedStake = calculateGreyManStake(
-    config.greyManMinStake,
-    config.greyManMaxStake,
-  );
+async function processArbOpportunity(arb: ArbOpportunity, minNetMargin?: number): Promise<boolean> {
+  // Calculate Grey Man stake, capped by the bookie account's balance and max stake and shrunk to
+  // what the profitable lay ladder can absorb, then the equalised Betfair lay stake, liability
+  // and outcome P&L at the VWAP
+  const account = bookieAccounts.get(normaliseBookie(arb.bookie));
+  const stake = calculateGreyManStake(settings.greyManMinStake, settings.greyManMaxStake);
+  const backStake = clampStakeToAccount(stake, account);
+  if (backStake < stake) {
+    console.log(`🏦 ${arb.bookie} account takes $${backStake} of the $${stake} stake`);
+  }
+  applyArbStake(arb, backStake);
 
   // Process through arb engine (deduplication and validation)
-  const result = await arbEngine.processArb(arb);
+  const result = await arbEngine.processArb(arb, minNetMargin);
 
   if (!result.processed) {
     console.log(`Skipping arb ${arb.id}: ${result.reason}`);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Process all arbitrage opportunities for one event and send a single grouped alert
+ * Survivors are ranked at their sized (VWAP) margins - the best leads the alert
+ * minNetMargin (the sport's own, else /minmargin) gates both acceptance and the auto-lay re-price
+ */
+async function processEventArbs(
+  opportunities: ArbOpportunity[],
+  minNetMargin = settings.minNetMargin,
+): Promise<void> {
+  const accepted: ArbOpportunity[] = [];
+  for (const opportunity of opportunities) {
+    if (await processArbOpportunity(opportunity, minNetMargin)) {
+      accepted.push(opportunity);
+    }
+  }
+
+  if (accepted.length === 0) {
     return;
   }
 
-  // Calculate Betfair liability (amount needed to cover if lay bet wins)
-  // Liability = stake * (layOdds - 1)
-  const _liabilityNeeded = calculateLiability(arb.suggestedStake, arb.layOdds);
-
-  // --- MANUAL MODE: Auto-lay disabled ---
-  // Auto-lay will be enabled when the approach is fully tested
-  const autoLayStatus = '⚠️ Manual Lay Required';
-
-  // --- DANGEROUS AUTOMATION (DISABLED FOR NOW) ---
-  // if (config.mockMode) {
-  //   autoLayStatus = '✅ Auto-Laid (Mock)';
-  // } else {
-  //   const layResult = await _betfairService.placeLayBet(
-  //     arb.betfairMarketId,
-  //     arb.betfairSelectionId,
-  //     _liabilityNeeded,
-  //     arb.layOdds,
-  //   );
-  //
-  //   if (layResult.status === 'SUCCESS') {
-  //     autoLayStatus = '✅ Auto-Laid';
-  //   } else {
-  //     autoLayStatus = `⚠️ FAILED - Manual Lay Req (${layResult.error || 'Unknown error'})`;
-  //   }
-  // }
-
-  // Send Telegram notification
-  const sent = await sendTelegramAlert(
-    config.telegramBotToken,
-    config.telegramChatId,
-    arb,
-    autoLayStatus,
+  for (const opportunity of accepted) {
+    await arbFeed.publish(opportunity);
+    await arbLifecycles.open(opportunity);
+  }
+
+  // A thin ladder can drop an arb below one it outranked at top of book
+  const [arb, ...alternatives] = rankArbs(accepted);
+
+  // Lay the best arb on Betfair when AUTO_LAY is on - every guard failure falls back to manual
+  const layResult = await autoLayExecutor.execute(arb, minNetMargin);
+  const autoLayStatus = layResult.status;
+  if (layResult.outcome === 'PARTIAL' && layResult.hedgedBackStake !== undefined) {
+    // Only part of the lay matched - the alert's strategy backs just what it hedges, at the matched price
+    arb.suggestedStake = layResult.hedgedBackStake;
+    arb.layVwap = layResult.averagePriceMatched ?? arb.layVwap;
+    Object.assign(
+      arb,
+      priceArb(arb.bookieOdds, arb.layVwap, arb.commissionRate),
+      calculatePosition(arb.suggestedStake, arb.bookieOdds, arb.layVwap, arb.commissionRate),
+    );
+  }
+
+  // Placed / Skipped / Price gone buttons are recorded against their ref, which also keys the ledger
+  const actionRef = await alertActions.register(arb);
+  if (layResult.betId && layResult.sizeMatched) {
+    await ledger.recordLay(ledgerArbFromArb(arb, actionRef), {
+      betId: layResult.betId,
+      stake: layResult.sizeMatched,
+      odds: layResult.averagePriceMatched ?? arb.layVwap,
+    });
+  }
+  if (layResult.outcome === 'FAILED') {
+    await notifier.sendSystemAlert({
+      kind: 'auto_lay',
+      level: 'critical',
+      title: 'Auto-lay kill switch set',
+      detail: `Lay for ${arb.event} (${arb.selection}) failed - ${layResult.status}\n` +
+        'Auto-lay places nothing until the switch is cleared (deno task killswitch off)',
+    });
+  }
+
+  // Send one notification per channel for the event, listing the alternatives
+  const alert = { arb, autoLayStatus, alternatives, actionRef };
+  const sent = await notifier.sendArbAlert(alert);
+
+  // Telegram alerts edit themselves on later scans (re-priced, then struck through once gone)
+  const telegramAlert = sent.find((s) => s.channel === 'telegram');
+  if (telegramAlert) {
+    await liveAlerts.track(Number(telegramAlert.messageId), alert);
+  }
+
+  if (sent.length > 0) {
+    console.log(
+      `Arb ${arb.id} processed and notified on ${sent.map((s) => s.channel).join(', ')} ` +
+        `(${alternatives.length} alternatives)`,
+    );
+  } else {
+    console.log(`Arb ${arb.id} processed but notification failed`);
+  }
+}
+
+/**
+ * Process a bookie-vs-bookie arb - split a Grey Man total stake across the legs, dedupe, validate and notify
+ * minNetMargin overrides /minmargin, e.g. the sport's own
+ */
+async function processBookieArbOpportunity(arb: BookieArbOpportunity, minNetMargin?: number): Promise<void> {
+  const odds = arb.legs.map((leg) => leg.odds);
+  let split = splitBookieStakes(calculateGreyManStake(settings.greyManMinStake, settings.greyManMaxStake), odds);
+
+  // Scale the whole book down if a leg is more than its bookie account can take - skip the arb if a
+  // leg rounds (or is clamped) below a bettable stake, as the book can't be covered
+  const clamped = arb.legs.map((leg, i) =>
+    clampStakeToAccount(split.stakes[i], bookieAccounts.get(normaliseBookie(leg.bookie)))
   );
+  if (clamped.some((stake) => stake < MIN_BACK_STAKE)) {
+    console.log(`Skipping bookie arb ${arb.id}: a leg stake is below $${MIN_BACK_STAKE}`);
+    return;
+  }
+  const scale = Math.min(1, ...clamped.map((stake, i) => stake / split.stakes[i]));
+  if (scale < 1) {
+    split = splitBookieStakes(split.totalStake * scale, odds);
+    if (split.stakes.some((stake) => stake < MIN_BACK_STAKE)) {
+      console.log(`Skipping bookie arb ${arb.id}: a leg stake is below $${MIN_BACK_STAKE} once scaled to the accounts`);
+      return;
+    }
+  }
+  arb.legs.forEach((leg, i) => {
+    leg.stake = split.stakes[i];
+    leg.payout = split.payouts[i];
+  });
+  arb.totalStake = split.totalStake;
+  arb.guaranteedProfit = split.guaranteedProfit;
+
+  const result = await arbEngine.processBookieArb(arb, minNetMargin);
+  if (!result.processed) {
+    console.log(`Skipping bookie arb ${arb.id}: ${result.reason}`);
+    return;
+  }
+
+  const sent = await notifier.sendBookieArbAlert(arb);
   if (sent) {
-    console.log(`Arb ${arb.id} processed and notified`);
+    console.log(`Bookie arb ${arb.id} processed and notified`);
   } else {
-    console.log(`Arb ${arb.id} processed but notification failed`);
+    console.log(`Bookie arb ${arb.id} processed but notification failed`);
   }
 }
 
 /**
  * Scan sports for arbitrage opportunities
  * Polls The-Odds-API during daytime and processes opportunities (manual mode - no auto bets)
+ * Returns how many sports were polled and how many opportunities they produced
  */
-async function scanSports(sportKeys: string[]): Promise<void> {
+async function scanSports(sports: SportConfig[]): Promise<{ polled: number; detected: number }> {
+  const summary = { polled: 0, detected: 0 };
+
   // Skip if outside Sydney daytime (7am-11pm)
   if (!isSydneyDaytime()) {
-    return;
+    return summary;
   }
 
-  for (const sportKey of sportKeys) {
+  for (const sport of sports) {
+    const sportKey = sport.key;
     try {
       if (config.mockMode) {
         // Use mock data for testing
+        summary.polled++;
         const mockArb = generateMockArb();
-        await processArbOpportunity(mockArb);
+        await processEventArbs([mockArb]);
       } else {
+        // Outside the sport's active hours nothing is fetched, so it doesn't count as polled
+        if (!isWithinActiveHours(sport.activeHours)) {
+          console.log(`⏭️ Skipping ${sportKey} - outside active hours`);
+          continue;
+        }
+
+        // Spread the remaining quota - low-yield sports are slowed down or skipped as it runs low
+        const decision = await quotaManager.shouldPoll(sportKey);
+        if (!decision.poll) {
+          console.log(`⏭️ Skipping ${sportKey} - ${decision.reason}`);
+          continue;
+        }
+
         // Poll The-Odds-API for real odds data
-        const events = await fetchOdds(config.oddsApiKey, { sportKey });
+        const events = await fetchOdds(config.oddsApiKey, {
+          sportKey,
+          markets: sport.markets,
+          activeHours: sport.activeHours,
+          onQuotaUsage: (usage) => handleQuotaUsage(sportKey, usage),
+        });
+        summary.polled++;
 
         if (events.length === 0) {
           continue;
@@ -167,40 +465,158 @@ async function scanSports(sportKeys: string[]): Promise<void> {
         // Parse odds response
         const parsedOdds = parseOddsResponse(events);
 
-        // Get the Betfair Sport ID (e.g., 'basketball_nba' -> '7522')
-        const betfairEventTypeId = getBetfairIdFromKey(sportKey);
-        if (!betfairEventTypeId) {
-          continue;
+        // Sport's own margin floor from sports.json, else /minmargin
+        const minNetMargin = sport.minNetMargin ?? settings.minNetMargin;
+
+        // Team name -> Betfair runner mappings confirmed on earlier scans
+        const learnedAliases = await teamAliasStore.load(sportKey);
+
+        // Skip games starting >24h away (low liquidity), and prices at bookies we can't bet at
+        // (banned, or no balance / stake allowance left)
+        const games = parsedOdds
+          .filter((game) => new Date(game.commenceTime).getTime() - Date.now() <= 86400000)
+          .map((game) => ({
+            ...game,
+            bookmakers: game.bookmakers.filter((bm) => isBookieUsable(bookieAccounts.get(normaliseBookie(bm.bookie)))),
+          }));
+
+        // Opportunities detected this scan - the sport's yield for quota budgeting
+        let detected = 0;
+
+        // Bookie-vs-bookie arbs need no Betfair lookup
+        if (config.bookieArbsEnabled) {
+          for (const game of games) {
+            for (const bookieArb of detectBookieArbs(game, minNetMargin)) {
+              detected++;
+              await processBookieArbOpportunity(bookieArb, minNetMargin);
+            }
+          }
         }
 
-        // Iterate through each game found on Bookies
-        for (const game of parsedOdds) {
-          // Skip games starting >24h away (low liquidity)
-          const startTime = new Date(game.commenceTime).getTime();
-          if (startTime - Date.now() > 86400000) {
-            continue;
+        // Phase 1: Resolve every Betfair market for the sport (mostly KV cache hits)
+        const resolveStarted = performance.now();
+        const resolved: Array<{
+          game: typeof games[number];
+          spec: BetfairMarketSpec;
+          market: MarketCatalogueEntry;
+        }> = [];
+
+        for (const game of games) {
+          // One or more Betfair markets per Odds-API market (h2h, spreads, totals)
+          for (const oddsMarket of sport.markets) {
+            const points = game.bookmakers
+              .filter((bm) => bm.market === oddsMarket && bm.point !== undefined)
+              .map((bm) => bm.point as number);
+
+            for (const spec of getBetfairMarketSpecs(oddsMarket, sportKey, points)) {
+              // Scored by team names and kickoff time within the competition (cached until kickoff)
+              const market = await betfairService.resolveMarket({
+                eventId: game.eventId,
+                sportKey,
+                eventTypeId: sport.betfairEventTypeId,
+                competitionName: sport.betfairCompetition,
+                homeTeam: game.homeTeam,
+                awayTeam: game.awayTeam,
+                commenceTime: game.commenceTime,
+                marketTypeCode: spec.marketTypeCode,
+                marketBettingTypes: spec.marketBettingTypes,
+                learnedAliases,
+              }).catch((error) => {
+                console.error(`Error resolving Betfair market for ${game.eventId}:`, error);
+                return null;
+              });
+
+              if (market) {
+                resolved.push({ game, spec, market });
+              }
+            }
           }
+        }
+        const resolveMs = performance.now() - resolveStarted;
 
-          // Find the matching market on Betfair
-          // Search using the Home & Away team names to find the specific "Match Odds" market
-          const betfairMarket = await betfairService.findMarket({
-            eventTypeId: betfairEventTypeId,
-            textQuery: `${game.homeTeam} ${game.awayTeam}`,
-            marketTypeCode: 'MATCH_ODDS',
-          });
+        // Phase 2: Read prices from the stream cache, and poll the rest in batched listMarketBook
+        // calls (markets subscribed this scan are cached from the next one)
+        const pricesStarted = performance.now();
+        const markets = resolved.map((r) => r.market);
+        await betfairStream?.subscribe(markets.map((m) => m.marketId));
+        const books = betfairStream?.getMarketPrices(markets) ?? new Map<string, BetfairMarketPrices>();
+        const streamed = books.size;
+        const unpriced = markets.filter((m) => !books.has(m.marketId));
+        if (unpriced.length > 0) {
+          const polled = await betfairService.getMarketBooks(unpriced, config.betfairLadderDepth);
+          for (const [marketId, book] of polled) books.set(marketId, book);
+        }
+        const pricesMs = performance.now() - pricesStarted;
 
-          if (!betfairMarket) {
-            continue;
+        // Record what this scan saw (opt-in) so missed or surprising alerts can be replayed
+        if (snapshotRecorder) {
+          const recordedAt = Date.now();
+          for (const event of events) {
+            const markets = resolved
+              .filter((r) => r.game.eventId === event.id)
+              .flatMap(({ spec, market }) => {
+                const book = books.get(market.marketId);
+                return book
+                  ? [{ oddsMarket: spec.oddsMarket, marketTypeCode: spec.marketTypeCode, market: { ...book, line: spec.line } }]
+                  : [];
+              });
+            await snapshotRecorder.record(sportKey, recordedAt, event, markets);
           }
+        }
 
-          // Check for arbitrage opportunities
-          const opportunity = detectArb(game, betfairMarket);
+        // Phase 3: Detect against the snapshot, grouped per event
+        const detectStarted = performance.now();
+        const seenArbIds = new Set<string>();
+        for (const game of games) {
+          const opportunities: ArbOpportunity[] = [];
 
-          if (opportunity) {
-            // Found one! Process and notify
-            await processArbOpportunity(opportunity);
+          for (const { spec, market } of resolved.filter((r) => r.game === game)) {
+            const betfairMarket = books.get(market.marketId);
+            if (!betfairMarket) {
+              continue;
+            }
+
+            // Check for arbitrage opportunities (net of Betfair commission)
+            const commissionRate = resolveCommissionRate(
+              config.betfairCommissionRate,
+              betfairMarket.marketBaseRate,
+            );
+            opportunities.push(
+              ...detectArb(
+                game,
+                { ...betfairMarket, line: spec.line },
+                commissionRate,
+                learnedAliases,
+                spec.oddsMarket,
+                { ...DEFAULT_DETECTION_THRESHOLDS, minNetMargin },
+              ),
+            );
           }
+
+          detected += opportunities.length;
+
+          // Extend lifecycles and re-price alerts already sent for these arbs - only new arbs
+          // get past the dedupe below
+          for (const opportunity of opportunities) seenArbIds.add(opportunity.id);
+          await arbLifecycles.observe(opportunities);
+          await liveAlerts.refresh(opportunities);
+
+          // Found some! Process all bookie/selection combos and send one grouped alert
+          await processEventArbs(rankArbs(opportunities), minNetMargin);
         }
+
+        // Arbs on markets priced this scan that weren't found again have closed - strike their alerts through
+        const closed = await arbLifecycles.sweep(books, seenArbIds);
+        await liveAlerts.markGone(closed);
+        const detectMs = performance.now() - detectStarted;
+
+        console.log(
+          `⏱️ ${sportKey}: ${games.length} games, ${books.size}/${resolved.length} markets priced ` +
+            `(${streamed} from stream) - ` +
+            `resolve ${resolveMs.toFixed(0)}ms, prices ${pricesMs.toFixed(0)}ms, detect ${detectMs.toFixed(0)}ms`,
+        );
+        await quotaManager.recordYield(sportKey, detected);
+        summary.detected += detected;
       }
     } catch (error) {
       // Handle quota exhaustion specifically
@@ -213,6 +629,48 @@ async function scanSports(sportKeys: string[]): Promise<void> {
       console.error(`Error scanning ${sportKey}:`, error);
     }
   }
+  return summary;
+}
+
+/**
+ * Pick up sports.json edits - an invalid edit is alerted once and the previous sports stay in use
+ */
+async function reloadSportsConfig(): Promise<void> {
+  try {
+    await sportsRegistry.reloadIfChanged();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error('❌ Sports config not reloaded:', message);
+    await notifier.sendSystemAlert({
+      kind: 'config',
+      level: 'warning',
+      title: 'Sports config edit rejected - still using the previous sports',
+      detail: message,
+    });
+  }
+}
+
+/**
+ * Scan one tier's sports - honours /pause and /sports, and records the scan for /status
+ */
+async function scanTier(tier: SportTier): Promise<void> {
+  settings = await settingsStore.load();
+  if (settings.paused) {
+    return;
+  }
+  bookieAccounts = await bookieAccountStore.loadAll();
+  arbEngine.setMinProfitMargin(settings.minNetMargin);
+
+  await reloadSportsConfig();
+
+  const sports = sportsRegistry.forTier(tier).filter((sport) => !settings.disabledSports.includes(sport.key));
+  const { polled, detected } = await scanSports(sports);
+  await kv.set(['last_scan', tier], {
+    at: new Date().toISOString(),
+    sports: sports.length,
+    polled,
+    detected,
+  } satisfies ScanSummary);
 }
 
 /**
@@ -224,10 +682,7 @@ Deno.cron('Tier 1 Scan', '*/2 * * * *', async () => {
   if (!isSydneyDaytime()) {
     return;
   }
-  const tier1Sports = Object.values(SPORT_KEYS).filter(
-    (key) => SPORT_TIERS[key] === 'TIER_1',
-  );
-  await scanSports(tier1Sports);
+  await scanTier('TIER_1');
 });
 
 /**
@@ -239,10 +694,48 @@ Deno.cron('Tier 2 Scan', '*/10 * * * *', async () => {
   if (!isSydneyDaytime()) {
     return;
   }
-  const tier2Sports = Object.values(SPORT_KEYS).filter(
-    (key) => SPORT_TIERS[key] === 'TIER_2',
-  );
-  await scanSports(tier2Sports);
+  await scanTier('TIER_2');
+});
+
+/**
+ * Health Check - alert when /health turns degraded, and again when it recovers (every 15 minutes)
+ */
+Deno.cron('Health Check', '*/15 * * * *', async () => {
+  try {
+    const report = await getHealthReport({ kv, config, settings: settingsStore, quotaManager, betfairAuth });
+    const previous = (await kv.get<HealthReport['status']>(['health_alert_status'])).value ?? 'ok';
+    if (report.status === previous) {
+      return;
+    }
+
+    const sent = await notifier.sendSystemAlert(
+      report.status === 'degraded'
+        ? { kind: 'health', level: 'warning', title: 'Arb-Seeker degraded', detail: report.problems.join('\n') }
+        : { kind: 'health', level: 'info', title: 'Arb-Seeker recovered' },
+    );
+    if (sent) {
+      await kv.set(['health_alert_status'], report.status);
+    }
+  } catch (error) {
+    console.error('Error checking health:', error);
+  }
+});
+
+/**
+ * Bet settlement - Betfair legs of started events from listClearedOrders (every 30 minutes)
+ */
+Deno.cron('Settle Bets', '*/30 * * * *', async () => {
+  if (config.mockMode) {
+    return;
+  }
+  try {
+    const settled = await ledger.settleBetfairLegs(betfairService);
+    if (settled > 0) {
+      console.log(`📒 Settled ${settled} Betfair legs`);
+    }
+  } catch (error) {
+    console.error('Error settling Betfair legs:', error);
+  }
 });
 
 /**
@@ -260,13 +753,19 @@ Deno.cron('Tier 3 Scan', '0 */6 * * *', async () => {
 
 // Initial scan on startup (only if Sydney daytime)
 console.log('Arb-Seeker started');
+if (config.autoLayMode !== 'off') {
+  console.log(
+    `🤖 Auto-lay ${config.autoLayMode}: max $${config.autoLayMaxBetLiability}/bet, ` +
+      `$${config.autoLayMaxDailyLiability}/day liability`,
+  );
+}
 // Reset quota notification flag on startup (allows notification after restart)
 await kv.set(['quota_exhaustion_notified'], false);
 await checkDaytimeTransition();
 if (isSydneyDaytime() && config.mockMode) {
   console.log('Running in MOCK_MODE - using test data');
   const mockArb = generateMockArb();
-  await processArbOpportunity(mockArb);
+  await processEventArbs([mockArb]);
 } else if (!isSydneyDaytime()) {
   console.log('Outside Sydney daytime (7am-11pm) - skipping initial scan');
 }
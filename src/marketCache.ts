@@ -0,0 +1,159 @@
+// Market Cache - In-memory Betfair ladders kept current from Stream API market changes
+
+import type {
+  BetfairMarketPrices,
+  BetfairPrice,
+  StreamMarketChange,
+  StreamRunnerChange,
+} from './types.ts';
+import type { MarketCatalogueEntry } from './betfairService.ts';
+
+interface CachedRunner {
+  selectionId: number;
+  handicap?: number;
+  status: string;
+  availableToBack: Map<number, BetfairPrice>; // Ladder level -> price/size
+  availableToLay: Map<number, BetfairPrice>;
+}
+
+interface CachedMarket {
+  marketId: string;
+  status: string;
+  inPlay: boolean;
+  marketBaseRate?: number;
+  runners: Map<string, CachedRunner>; // Keyed by selectionId + handicap
+  updatedAt: number; // Publish time of the last change (epoch ms)
+}
+
+function runnerKey(selectionId: number, handicap?: number): string {
+  return `${selectionId}_${handicap ?? 0}`;
+}
+
+/**
+ * Apply [level, price, size] updates to a ladder - size 0 removes the level
+ */
+function applyLadder(ladder: Map<number, BetfairPrice>, levels: number[][]): void {
+  for (const [level, price, size] of levels) {
+    if (size === 0) {
+      ladder.delete(level);
+    } else {
+      ladder.set(level, { price, size });
+    }
+  }
+}
+
+function toPrices(ladder: Map<number, BetfairPrice>): BetfairPrice[] {
+  return [...ladder.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([, level]) => level);
+}
+
+export class MarketCache {
+  private markets = new Map<string, CachedMarket>();
+
+  /**
+   * Apply one market change from an mcm message (image or delta)
+   */
+  applyMarketChange(change: StreamMarketChange, publishTime: number): void {
+    let market = this.markets.get(change.id);
+    if (!market || change.img) {
+      market = {
+        marketId: change.id,
+        status: 'OPEN',
+        inPlay: false,
+        runners: new Map(),
+        updatedAt: publishTime,
+      };
+      this.markets.set(change.id, market);
+    }
+
+    const definition = change.marketDefinition;
+    if (definition) {
+      if (definition.status === 'CLOSED') {
+        this.markets.delete(change.id);
+        return;
+      }
+      market.status = definition.status;
+      market.inPlay = definition.inPlay ?? false;
+      market.marketBaseRate = definition.marketBaseRate ?? market.marketBaseRate;
+      for (const runner of definition.runners ?? []) {
+        this.getRunner(market, runner.id, runner.hc).status = runner.status;
+      }
+    }
+
+    for (const runnerChange of change.rc ?? []) {
+      this.applyRunnerChange(market, runnerChange);
+    }
+    market.updatedAt = publishTime;
+  }
+
+  private applyRunnerChange(market: CachedMarket, change: StreamRunnerChange): void {
+    const runner = this.getRunner(market, change.id, change.hc);
+    if (change.batb) applyLadder(runner.availableToBack, change.batb);
+    if (change.batl) applyLadder(runner.availableToLay, change.batl);
+  }
+
+  private getRunner(market: CachedMarket, selectionId: number, handicap?: number): CachedRunner {
+    const key = runnerKey(selectionId, handicap);
+    let runner = market.runners.get(key);
+    if (!runner) {
+      runner = {
+        selectionId,
+        handicap,
+        status: 'ACTIVE',
+        availableToBack: new Map(),
+        availableToLay: new Map(),
+      };
+      market.runners.set(key, runner);
+    }
+    return runner;
+  }
+
+  has(marketId: string): boolean {
+    return this.markets.has(marketId);
+  }
+
+  /**
+   * Drop a market (e.g. after it closes or is unsubscribed)
+   */
+  delete(marketId: string): void {
+    this.markets.delete(marketId);
+  }
+
+  get size(): number {
+    return this.markets.size;
+  }
+
+  /**
+   * Cached prices for a resolved market, merged with catalogue runner names
+   * Same shape as BetfairService.getMarketBooks. Returns null if the market isn't cached,
+   * isn't open, or has gone in-play.
+   */
+  getPrices(entry: MarketCatalogueEntry): BetfairMarketPrices | null {
+    const market = this.markets.get(entry.marketId);
+    if (!market || market.status !== 'OPEN' || market.inPlay) {
+      return null;
+    }
+
+    return {
+      marketId: market.marketId,
+      marketBaseRate: market.marketBaseRate ?? entry.marketBaseRate,
+      runners: [...market.runners.values()]
+        .filter((runner) => runner.status === 'ACTIVE')
+        .map((runner) => {
+          const runnerInfo = entry.runners.find(
+            (meta) => meta.selectionId === runner.selectionId,
+          );
+          return {
+            selectionId: runner.selectionId,
+            runnerName: runnerInfo ? runnerInfo.runnerName : 'Unknown',
+            handicap: runner.handicap,
+            ex: {
+              availableToBack: toPrices(runner.availableToBack),
+              availableToLay: toPrices(runner.availableToLay),
+            },
+          };
+        }),
+    };
+  }
+}
@@ -0,0 +1,59 @@
+// Market Mapping - Odds-API markets -> Betfair market types
+
+export type OddsMarketKey = 'h2h' | 'spreads' | 'totals';
+
+const HANDICAP_BETTING_TYPES = ['ASIAN_HANDICAP_SINGLE_LINE', 'ASIAN_HANDICAP_DOUBLE_LINE'];
+
+export interface BetfairMarketSpec {
+  oddsMarket: OddsMarketKey;
+  marketTypeCode: string; // e.g. "MATCH_ODDS", "ASIAN_HANDICAP", "OVER_UNDER_25"
+  marketBettingTypes: string[];
+  line?: number; // Market-level line - OVER_UNDER_xx markets carry it in the type code
+}
+
+/**
+ * Map an Odds-API market to the Betfair market(s) to search
+ * - h2h -> MATCH_ODDS
+ * - spreads -> ASIAN_HANDICAP (soccer) / HANDICAP (other sports), line per runner handicap
+ * - totals -> OVER_UNDER_xx per point (soccer) / TOTAL_POINTS (other sports), line per runner handicap
+ */
+export function getBetfairMarketSpecs(
+  oddsMarket: OddsMarketKey,
+  sportKey: string,
+  points: number[] = [],
+): BetfairMarketSpec[] {
+  const isSoccer = sportKey.startsWith('soccer_');
+
+  switch (oddsMarket) {
+    case 'h2h':
+      return [{ oddsMarket, marketTypeCode: 'MATCH_ODDS', marketBettingTypes: ['ODDS'] }];
+    case 'spreads':
+      return [{
+        oddsMarket,
+        marketTypeCode: isSoccer ? 'ASIAN_HANDICAP' : 'HANDICAP',
+        marketBettingTypes: HANDICAP_BETTING_TYPES,
+      }];
+    case 'totals':
+      if (!isSoccer) {
+        return [{ oddsMarket, marketTypeCode: 'TOTAL_POINTS', marketBettingTypes: HANDICAP_BETTING_TYPES }];
+      }
+      // Betfair only lists half-goal Over/Under markets (OVER_UNDER_05 ... OVER_UNDER_85)
+      return [...new Set(points)]
+        .filter((point) => point > 0 && point < 9 && (point * 10) % 10 === 5)
+        .map((point) => ({
+          oddsMarket,
+          marketTypeCode: `OVER_UNDER_${String(Math.round(point * 10)).padStart(2, '0')}`,
+          marketBettingTypes: ['ODDS'],
+          line: point,
+        }));
+  }
+}
+
+/**
+ * Human-readable selection label, e.g. "Lakers", "Lakers -5.5", "Over 2.5"
+ */
+export function formatSelection(outcome: string, point?: number): string {
+  if (point === undefined) return outcome;
+  const sign = point > 0 && outcome !== 'Over' && outcome !== 'Under' ? '+' : '';
+  return `${outcome} ${sign}${point}`;
+}
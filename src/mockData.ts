@@ -1,8 +1,10 @@
 // Mock data for testing
 
 import type { ArbOpportunity } from './types.ts';
+import { calculatePosition, DEFAULT_COMMISSION_RATE, priceArb } from './pricing.ts';
 import type { OddsApiEvent } from './types.ts';
 import type { BetfairMarket, BetfairRunner } from './types.ts';
+import type { AutoLayBetfair } from './autoLay.ts';
 
 /**
  * Generate a perfect mock arbitrage opportunity
@@ -15,16 +17,46 @@ export function generateMockArb(): ArbOpportunity {
     id: `mock_arb_${timestamp}`,
     event: 'Lakers vs Celtics',
     sport: 'Basketball',
+    sportKey: 'basketball_nba',
     startTime: new Date(Date.now() + 2 * 60 * 60 * 1000).toISOString(), // 2 hours from now
+    market: 'h2h',
+    selection: 'Lakers',
     bookie: 'Sportsbet',
     bookieOdds: 2.50,
     bookieUrl: 'https://www.sportsbet.com.au/bet/mock-event',
     suggestedStake: 315, // Grey Man stake (not divisible by 50 or 100)
     betfairMarketId: '1.234567890',
     betfairSelectionId: 12345,
+    betfairRunnerName: 'Lakers',
+    matchConfidence: 1,
     layOdds: 2.30,
-    layLiquidity: 1100, // Enough to cover max stake (420 * 2.50 = 1050)
-    profitMargin: (2.50 - 2.30) / 2.30, // ~8.7%
+    layLiquidity: 1100, // Enough to cover max lay stake (420 * 2.50 / 2.25 = ~467)
+    layLadder: [{ price: 2.30, size: 1100 }],
+    layFillable: 1100,
+    layVwap: 2.30,
+    ...calculatePosition(315, 2.50, 2.30, DEFAULT_COMMISSION_RATE),
+    ...priceArb(2.50, 2.30, DEFAULT_COMMISSION_RATE), // ~8.7% gross, ~5.6% net
+  };
+}
+
+/**
+ * Betfair for auto-lay in mock mode - the mock arb's lay ladder and a funded account
+ * AUTO_LAY runs as dry-run against it, so every guard runs and nothing is placed
+ */
+export function mockAutoLayBetfair(): AutoLayBetfair {
+  return {
+    getLayLadder: () => Promise.resolve([{ price: 2.30, size: 1100 }]),
+    getAccountFunds: () =>
+      Promise.resolve({
+        availableToBetBalance: 5000,
+        exposure: 0,
+        retainedCommission: 0,
+        exposureLimit: -10000,
+        discountRate: 0,
+        pointsBalance: 0,
+        wallet: 'UK',
+      }),
+    placeLayBet: () => Promise.reject(new Error('Mock mode never places bets')),
   };
 }
 
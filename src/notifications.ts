@@ -1,37 +1,103 @@
 // Telegram Notifications
 
-import type { ArbOpportunity } from './types.ts';
+import type { ArbOpportunity, BookieArbOpportunity } from './types.ts';
+import { FLAG_MATCH_CONFIDENCE } from './entityResolution.ts';
+import { alertActionRow } from './alertActions.ts';
+import type { InlineKeyboardMarkup } from './telegramBot.ts';
+import { SYSTEM_ALERT_ICONS } from './notifier.ts';
+import type { ArbAlert, Notifier, SystemAlert } from './notifier.ts';
+
+export const MARKET_LABELS: Record<string, string> = {
+  h2h: 'Head to Head',
+  spreads: 'Line / Handicap',
+  totals: 'Total (Over/Under)',
+};
 
 /**
- * Send arbitrage opportunity alert to Telegram
+ * Format a signed dollar amount, e.g. +$12.40 / -$3.10
  */
-export async function sendTelegramAlert(
-  botToken: string,
-  chatId: string,
+export function formatPnl(amount: number): string {
+  return `${amount < 0 ? '-' : '+'}$${Math.abs(amount).toFixed(2)}`;
+}
+
+/**
+ * Betfair Exchange market page
+ */
+export function betfairMarketUrl(marketId: string): string {
+  return `https://www.betfair.com.au/exchange/plus/market/${marketId}`;
+}
+
+/**
+ * Flag a low-confidence team -> runner match so the Betfair market gets checked by eye
+ */
+function formatMatchWarning(arb: ArbOpportunity): string {
+  if (arb.matchConfidence >= FLAG_MATCH_CONFIDENCE) return '';
+  return `⚠️ <b>Check runner:</b> ${arb.selection} → ${arb.betfairRunnerName} (${(arb.matchConfidence * 100).toFixed(0)}% match)\n`;
+}
+
+/**
+ * Format the ranked alternatives block for a grouped event alert
+ */
+function formatAlternatives(alternatives: ArbOpportunity[]): string {
+  if (alternatives.length === 0) return '';
+
+  const lines = alternatives.map((alt, i) =>
+    `${i + 2}. Back ${alt.selection} at ${alt.bookie} @ ${alt.bookieOdds} / Lay @ ${alt.layOdds} ` +
+    `(${(alt.netMargin * 100).toFixed(2)}% net, $${alt.suggestedStake} -> lay $${alt.layStake.toFixed(2)})`
+  );
+
+  return `\n🔁 <b>Alternatives</b>\n${lines.join('\n')}\n`;
+}
+
+/**
+ * Telegram HTML for an arb alert (also used to re-render live alerts as prices move)
+ */
+export function formatArbAlertText(
   arb: ArbOpportunity,
   autoLayStatus: string,
-): Promise<boolean> {
-  const profitPct = (arb.profitMargin * 100).toFixed(2);
+  alternatives: ArbOpportunity[] = [],
+): string {
+  const profitPct = (arb.netMargin * 100).toFixed(2);
+  const grossPct = (arb.grossMargin * 100).toFixed(2);
+  const commissionPct = (arb.commissionRate * 100).toFixed(1);
+  const layRatio = (arb.layStake / arb.suggestedStake).toFixed(3);
+  const layPrice = arb.layVwap > arb.layOdds
+    ? `${arb.layOdds} (avg ${arb.layVwap.toFixed(3)} across ladder)`
+    : `${arb.layOdds}`;
 
-  // Build the Message Text (HTML)
   const startTime = new Date(arb.startTime).toLocaleString('en-AU', {
     timeZone: 'Australia/Sydney',
     dateStyle: 'short',
     timeStyle: 'short',
   });
 
-  const text = `
-🚨 <b>ARB FOUND: ${profitPct}%</b>
+  return `
+🚨 <b>ARB FOUND: ${profitPct}%</b> net
+<i>${grossPct}% gross, ${commissionPct}% Betfair commission</i>
 
-Strategy: Back <b>$${arb.suggestedStake}</b> on ${arb.bookie} @ ${arb.bookieOdds}
+Strategy: Back <b>$${arb.suggestedStake}</b> on <b>${arb.selection}</b> at ${arb.bookie} @ ${arb.bookieOdds}
+Lay <b>$${arb.layStake.toFixed(2)}</b> on Betfair @ ${layPrice} (liability $${arb.layLiability.toFixed(2)})
+Lay ratio: $${layRatio} per $1 backed
 Betfair Status: ${autoLayStatus}
+${formatMatchWarning(arb)}
+💰 If back wins: ${formatPnl(arb.profitIfBackWins)}
+💰 If back loses: ${formatPnl(arb.profitIfBackLoses)}
 
 🏆 <b>${arb.event}</b>
+🎯 ${MARKET_LABELS[arb.market] ?? arb.market}
 📅 ${startTime}
-`;
+${formatAlternatives(alternatives)}`;
+}
 
-  // Build the Buttons (Inline Keyboard)
-  const keyboard = {
+/**
+ * Bookie / alternative bookie / Betfair link buttons, plus the action row when there's an actionRef
+ */
+export function buildArbAlertKeyboard(
+  arb: ArbOpportunity,
+  alternatives: ArbOpportunity[] = [],
+  actionRef?: string,
+): InlineKeyboardMarkup {
+  return {
     inline_keyboard: [
       [
         {
@@ -39,14 +105,41 @@ Betfair Status: ${autoLayStatus}
           url: arb.bookieUrl, // Deep Link
         },
       ],
+      ...alternatives
+        .filter((alt) => alt.bookie !== arb.bookie)
+        .map((alt) => [
+          {
+            text: `📲 ALT: ${alt.bookie.toUpperCase()} (${alt.selection})`,
+            url: alt.bookieUrl,
+          },
+        ]),
       [
         {
           text: '🔄 OPEN BETFAIR',
-          url: `https://www.betfair.com.au/exchange/plus/market/${arb.betfairMarketId}`,
+          url: betfairMarketUrl(arb.betfairMarketId),
         },
       ],
+      ...(actionRef ? [alertActionRow(actionRef)] : []),
     ],
   };
+}
+
+/**
+ * Send arbitrage opportunity alert to Telegram
+ * Alternatives are other qualifying bookie/selection combos for the same event, ranked best first.
+ * With an actionRef, the alert gets Placed / Skipped / Price gone buttons (see alertActions.ts).
+ * Returns the Telegram message_id, or null if sending failed
+ */
+export async function sendTelegramAlert(
+  botToken: string,
+  chatId: string,
+  arb: ArbOpportunity,
+  autoLayStatus: string,
+  alternatives: ArbOpportunity[] = [],
+  actionRef?: string,
+): Promise<number | null> {
+  const text = formatArbAlertText(arb, autoLayStatus, alternatives);
+  const keyboard = buildArbAlertKeyboard(arb, alternatives, actionRef);
 
   // Send Request
   const url = `https://api.telegram.org/bot${botToken}/sendMessage`;
@@ -66,25 +159,99 @@ Betfair Status: ${autoLayStatus}
     if (!res.ok) {
       const errorText = await res.text();
       console.error('Telegram Error:', errorText);
-      return false;
+      return null;
     }
 
+    const data = await res.json() as { result: { message_id: number } };
     console.log(`✅ Telegram Alert sent for ${arb.id}`);
-    return true;
+    return data.result.message_id;
   } catch (error) {
     console.error('Failed to send Telegram alert:', error);
+    return null;
+  }
+}
+
+/**
+ * Send bookie-vs-bookie arb alert to Telegram
+ * No Betfair leg - one back bet per outcome, each at its own bookie
+ */
+export async function sendTelegramBookieArbAlert(
+  botToken: string,
+  chatId: string,
+  arb: BookieArbOpportunity,
+): Promise<boolean> {
+  const profitPct = (arb.profitMargin * 100).toFixed(2);
+
+  const startTime = new Date(arb.startTime).toLocaleString('en-AU', {
+    timeZone: 'Australia/Sydney',
+    dateStyle: 'short',
+    timeStyle: 'short',
+  });
+
+  const legLines = arb.legs.map((leg) =>
+    `• Back <b>$${leg.stake}</b> on <b>${leg.selection}</b> at ${leg.bookie} @ ${leg.odds} (returns $${leg.payout.toFixed(2)})`
+  );
+
+  const text = `
+🔀 <b>BOOKIE ARB: ${profitPct}%</b>
+
+${legLines.join('\n')}
+
+Total staked: $${arb.totalStake}
+💰 Guaranteed profit: ${formatPnl(arb.guaranteedProfit)}
+
+🏆 <b>${arb.event}</b>
+🎯 ${MARKET_LABELS[arb.market] ?? arb.market}
+📅 ${startTime}
+`;
+
+  // One button per bookie leg
+  const keyboard = {
+    inline_keyboard: arb.legs.map((leg) => [
+      {
+        text: `📲 ${leg.bookie.toUpperCase()}: ${leg.selection}`,
+        url: leg.bookieUrl,
+      },
+    ]),
+  };
+
+  const url = `https://api.telegram.org/bot${botToken}/sendMessage`;
+
+  try {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        chat_id: chatId,
+        text: text,
+        parse_mode: 'HTML',
+        reply_markup: keyboard,
+      }),
+    });
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      console.error('Telegram Error:', errorText);
+      return false;
+    }
+
+    console.log(`✅ Telegram Bookie Arb Alert sent for ${arb.id}`);
+    return true;
+  } catch (error) {
+    console.error('Failed to send Telegram bookie arb alert:', error);
     return false;
   }
 }
 
 /**
- * Send quota exhaustion alert to Telegram
+ * Send an operational alert (quota, health, auto-lay) to Telegram as plain text
  */
-export async function sendQuotaExhaustionAlert(
+export async function sendTelegramSystemAlert(
   botToken: string,
   chatId: string,
+  alert: SystemAlert,
 ): Promise<boolean> {
-  const text = 'ODDS API ACCESS ran out of requests quota';
+  const text = `${SYSTEM_ALERT_ICONS[alert.level]} ${alert.title}${alert.detail ? `\n${alert.detail}` : ''}`;
 
   const url = `https://api.telegram.org/bot${botToken}/sendMessage`;
 
@@ -104,10 +271,44 @@ export async function sendQuotaExhaustionAlert(
       return false;
     }
 
-    console.log('✅ Quota exhaustion alert sent');
+    console.log(`✅ Telegram ${alert.kind} alert sent: ${alert.title}`);
     return true;
   } catch (error) {
-    console.error('Failed to send quota exhaustion alert:', error);
+    console.error(`Failed to send Telegram ${alert.kind} alert:`, error);
     return false;
   }
 }
+
+/**
+ * Telegram channel for the notification hub
+ */
+export class TelegramNotifier implements Notifier {
+  readonly channel = 'telegram';
+  private botToken: string;
+  private chatId: string;
+
+  constructor(botToken: string, chatId: string) {
+    this.botToken = botToken;
+    this.chatId = chatId;
+  }
+
+  async sendArbAlert(alert: ArbAlert): Promise<string | null> {
+    const messageId = await sendTelegramAlert(
+      this.botToken,
+      this.chatId,
+      alert.arb,
+      alert.autoLayStatus,
+      alert.alternatives,
+      alert.actionRef,
+    );
+    return messageId === null ? null : String(messageId);
+  }
+
+  async sendBookieArbAlert(arb: BookieArbOpportunity): Promise<boolean> {
+    return await sendTelegramBookieArbAlert(this.botToken, this.chatId, arb);
+  }
+
+  async sendSystemAlert(alert: SystemAlert): Promise<boolean> {
+    return await sendTelegramSystemAlert(this.botToken, this.chatId, alert);
+  }
+}
@@ -0,0 +1,105 @@
+// Notifier - Channel-agnostic alerts, fanned out to every configured channel (Telegram, Google Chat, webhooks)
+
+import type { NotifierChannel } from './config.ts';
+import type { ArbOpportunity, BookieArbOpportunity } from './types.ts';
+
+/**
+ * An arb alert - the best arb for an event plus the ranked alternatives
+ * actionRef adds Placed / Skipped / Price gone buttons where the channel supports them (Telegram)
+ */
+export interface ArbAlert {
+  arb: ArbOpportunity;
+  autoLayStatus: string;
+  alternatives: ArbOpportunity[];
+  actionRef?: string;
+}
+
+/**
+ * Operational alert - quota, health, auto-lay kill switch, Betfair login, daytime start/end, nightly arb lifetimes,
+ * rejected sports config edits
+ */
+export interface SystemAlert {
+  kind: 'quota' | 'health' | 'auto_lay' | 'betfair_login' | 'daytime' | 'arb_lifecycle' | 'config';
+  level: 'info' | 'warning' | 'critical';
+  title: string; // e.g. "ODDS API quota 80% used"
+  detail?: string; // Plain text, may span lines
+}
+
+/**
+ * Where an arb alert landed - messageId is the channel's id (Telegram message_id, Google Chat message name)
+ */
+export interface SentAlert {
+  channel: NotifierChannel;
+  messageId: string;
+}
+
+/**
+ * One alert channel - failures are logged by the channel and reported as null / false
+ */
+export interface Notifier {
+  readonly channel: NotifierChannel;
+  sendArbAlert(alert: ArbAlert): Promise<string | null>;
+  sendBookieArbAlert(arb: BookieArbOpportunity): Promise<boolean>;
+  sendSystemAlert(alert: SystemAlert): Promise<boolean>;
+}
+
+export const SYSTEM_ALERT_ICONS: Record<SystemAlert['level'], string> = {
+  info: 'ℹ️',
+  warning: '⚠️',
+  critical: '🛑',
+};
+
+/**
+ * Sends each alert to every channel in parallel - one failing channel doesn't hold up the others
+ */
+export class NotificationHub {
+  private notifiers: Notifier[];
+
+  constructor(notifiers: Notifier[]) {
+    this.notifiers = notifiers;
+  }
+
+  get channels(): NotifierChannel[] {
+    return this.notifiers.map((notifier) => notifier.channel);
+  }
+
+  /**
+   * Returns the channels that accepted the alert
+   */
+  async sendArbAlert(alert: ArbAlert): Promise<SentAlert[]> {
+    const results = await this.fanOut((notifier) => notifier.sendArbAlert(alert));
+    return results.flatMap(({ channel, result }) => result !== null ? [{ channel, messageId: result }] : []);
+  }
+
+  /**
+   * True if at least one channel accepted the alert
+   */
+  async sendBookieArbAlert(arb: BookieArbOpportunity): Promise<boolean> {
+    const results = await this.fanOut((notifier) => notifier.sendBookieArbAlert(arb));
+    return results.some(({ result }) => result);
+  }
+
+  /**
+   * True if at least one channel accepted the alert
+   * channels limits the fan-out, e.g. routine events meant for webhooks rather than chat
+   */
+  async sendSystemAlert(alert: SystemAlert, channels?: NotifierChannel[]): Promise<boolean> {
+    const results = await this.fanOut((notifier) => notifier.sendSystemAlert(alert), channels);
+    return results.some(({ result }) => result);
+  }
+
+  private async fanOut<T>(
+    send: (notifier: Notifier) => Promise<T>,
+    channels?: NotifierChannel[],
+  ): Promise<Array<{ channel: NotifierChannel; result: T | null }>> {
+    const notifiers = this.notifiers.filter((notifier) => !channels || channels.includes(notifier.channel));
+    return await Promise.all(notifiers.map(async (notifier) => {
+      try {
+        return { channel: notifier.channel, result: await send(notifier) };
+      } catch (error) {
+        console.error(`${notifier.channel} notifier failed:`, error);
+        return { channel: notifier.channel, result: null };
+      }
+    }));
+  }
+}
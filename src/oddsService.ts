@@ -1,17 +1,21 @@
 // The-Odds-API Integration Service
 
 import type { OddsApiResponse, OddsApiEvent } from './types.ts';
-import { isActiveHours } from './config.ts';
+import { isWithinActiveHours } from './sportsConfig.ts';
+import type { ActiveWindow } from './sportsConfig.ts';
+import type { QuotaUsage } from './quotaManager.ts';
 
 const ODDS_API_BASE_URL = 'https://api.the-odds-api.com/v4';
 const REGIONS = ['au']; // Australian bookmakers
-const MARKETS = ['h2h']; // Head-to-head markets
+const MARKETS = ['h2h']; // Head-to-head markets (override with ODDS_API_MARKETS)
 
 export interface FetchOddsOptions {
   sportKey: string;
   regions?: string[];
   markets?: string[];
   dateFormat?: string;
+  activeHours?: ActiveWindow[]; // Sport's scanning windows (see sports.json) - skipped outside them
+  onQuotaUsage?: (usage: QuotaUsage) => Promise<void>; // Called with the usage headers of every response
 }
 
 /**
@@ -24,6 +28,23 @@ export class QuotaExhaustedError extends Error {
   }
 }
 
+/**
+ * Read the Odds-API usage headers (null if the response carries none)
+ * x-requests-last is the cost of this call: markets x regions, or 0 when no events are returned
+ */
+export function readQuotaHeaders(headers: Headers): QuotaUsage | null {
+  const used = headers.get('x-requests-used');
+  const remaining = headers.get('x-requests-remaining');
+  if (used === null || remaining === null) {
+    return null;
+  }
+  return {
+    used: parseInt(used, 10),
+    remaining: parseInt(remaining, 10),
+    last: parseInt(headers.get('x-requests-last') ?? '0', 10),
+  };
+}
+
 /**
  * Fetch odds from The-Odds-API
  * Only fetches games starting in the next 24 hours
@@ -32,10 +53,10 @@ export async function fetchOdds(
   apiKey: string,
   options: FetchOddsOptions,
 ): Promise<OddsApiEvent[]> {
-  const { sportKey, regions = REGIONS, markets = MARKETS } = options;
+  const { sportKey, regions = REGIONS, markets = MARKETS, activeHours = [] } = options;
 
   // Check active hours filter
-  if (!isActiveHours(sportKey)) {
+  if (!isWithinActiveHours(activeHours)) {
     console.log(`Skipping ${sportKey} - outside active hours`);
     return [];
   }
@@ -46,6 +67,11 @@ export async function fetchOdds(
 
   try {
     const response = await fetch(url);
+
+    const usage = readQuotaHeaders(response.headers);
+    if (usage) {
+      await options.onQuotaUsage?.(usage);
+    }
     
     // Check for quota exhaustion before checking response.ok
     const requestsRemaining = response.headers.get('x-requests-remaining');
@@ -0,0 +1,275 @@
+// Pricing - Back/lay margin maths including Betfair commission
+
+import type { ArbOpportunity, BetfairPrice } from './types.ts';
+import { calculateLiability, roundDownGreyManStake } from './utils.ts';
+
+export const DEFAULT_COMMISSION_RATE = 0.05; // 5% - Betfair AU standard base rate
+
+export interface ArbPricing {
+  grossMargin: number; // Margin ignoring commission
+  netMargin: number; // Locked-in profit per $1 backed, after commission
+  commissionRate: number; // e.g. 0.05 (5%)
+}
+
+/**
+ * Resolve the commission rate to price an arb with
+ * Priority: configured rate -> market base rate (percent, e.g. 5.0) -> default
+ */
+export function resolveCommissionRate(
+  configuredRate: number | null,
+  marketBaseRate?: number,
+): number {
+  if (configuredRate !== null) return configuredRate;
+  if (marketBaseRate !== undefined && marketBaseRate >= 0) return marketBaseRate / 100;
+  return DEFAULT_COMMISSION_RATE;
+}
+
+/**
+ * Calculate gross margin (no commission)
+ * Formula: (backOdds - layOdds) / layOdds
+ */
+export function calculateGrossMargin(backOdds: number, layOdds: number): number {
+  if (layOdds <= 0) return 0;
+  return (backOdds - layOdds) / layOdds;
+}
+
+/**
+ * Calculate net locked-in margin after commission on the lay win
+ * Assumes the lay stake equalises profit across both outcomes
+ * Formula: (backOdds * (1 - commission)) / (layOdds - commission) - 1
+ */
+export function calculateNetMargin(
+  backOdds: number,
+  layOdds: number,
+  commissionRate: number,
+): number {
+  if (layOdds <= commissionRate) return 0;
+  return (backOdds * (1 - commissionRate)) / (layOdds - commissionRate) - 1;
+}
+
+/**
+ * Price a back/lay pair - gross and net margin
+ */
+export function priceArb(
+  backOdds: number,
+  layOdds: number,
+  commissionRate: number,
+): ArbPricing {
+  return {
+    grossMargin: calculateGrossMargin(backOdds, layOdds),
+    netMargin: calculateNetMargin(backOdds, layOdds, commissionRate),
+    commissionRate,
+  };
+}
+
+export interface ArbPosition {
+  layStake: number; // Betfair lay stake that equalises profit across outcomes
+  layLiability: number; // Betfair exposure if the selection wins
+  profitIfBackWins: number; // Net result if the bookie bet wins (lay loses)
+  profitIfBackLoses: number; // Net result if the bookie bet loses (lay wins, less commission)
+}
+
+/**
+ * Calculate the lay stake that equalises profit across outcomes
+ * Formula: backStake * backOdds / (layOdds - commission)
+ */
+export function calculateEqualisedLayStake(
+  backStake: number,
+  backOdds: number,
+  layOdds: number,
+  commissionRate: number,
+): number {
+  if (layOdds <= commissionRate) throw new Error('Lay odds must be greater than commission rate');
+  return (backStake * backOdds) / (layOdds - commissionRate);
+}
+
+/**
+ * Build the full two-leg position for a back stake
+ * Amounts are rounded to cents (Betfair's minimum stake increment)
+ */
+export function calculatePosition(
+  backStake: number,
+  backOdds: number,
+  layOdds: number,
+  commissionRate: number,
+): ArbPosition {
+  const layStake = roundCents(
+    calculateEqualisedLayStake(backStake, backOdds, layOdds, commissionRate),
+  );
+  const layLiability = roundCents(calculateLiability(layStake, layOdds));
+
+  return {
+    layStake,
+    layLiability,
+    profitIfBackWins: roundCents(backStake * (backOdds - 1) - layLiability),
+    profitIfBackLoses: roundCents(layStake * (1 - commissionRate) - backStake),
+  };
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export interface LadderFill {
+  backStake: number; // Back stake the ladder can hedge (capped to what it absorbs)
+  layStake: number; // Total lay stake matched across ladder levels
+  layVwap: number; // Volume-weighted average lay price
+  layWorstPrice: number; // Highest ladder price used - the limit price that fills layStake
+}
+
+/**
+ * Keep only the lay ladder levels that still clear the minimum net margin
+ * Lay ladders are ordered best (lowest) price first, so stop at the first level that fails
+ */
+export function profitableLadder(
+  backOdds: number,
+  ladder: BetfairPrice[],
+  commissionRate: number,
+  minNetMargin: number,
+): BetfairPrice[] {
+  const levels: BetfairPrice[] = [];
+  for (const level of ladder) {
+    if (calculateNetMargin(backOdds, level.price, commissionRate) < minNetMargin) break;
+    levels.push(level);
+  }
+  return levels;
+}
+
+/**
+ * Walk the lay ladder to hedge a back stake, best price first
+ * Each level's lay stake covers backStake * backOdds = sum(layStake_i * (price_i - commission)),
+ * so the result is the equalised position at the volume-weighted price.
+ * If the ladder runs out, backStake is capped to what was hedged.
+ */
+export function fillLayLadder(
+  backStake: number,
+  backOdds: number,
+  ladder: BetfairPrice[],
+  commissionRate: number,
+): LadderFill {
+  let remaining = backStake * backOdds;
+  let layStake = 0;
+  let layCost = 0;
+  let layWorstPrice = 0;
+
+  for (const level of ladder) {
+    if (remaining <= 0) break;
+    const weight = level.price - commissionRate;
+    if (weight <= 0) continue;
+
+    const take = Math.min(level.size, remaining / weight);
+    layStake += take;
+    layCost += take * level.price;
+    layWorstPrice = Math.max(layWorstPrice, level.price);
+    remaining -= take * weight;
+  }
+
+  if (layStake === 0) {
+    return { backStake: 0, layStake: 0, layVwap: 0, layWorstPrice: 0 };
+  }
+
+  const hedged = remaining > 0 ? backStake - remaining / backOdds : backStake;
+  return {
+    backStake: hedged,
+    layStake: roundCents(layStake),
+    layVwap: layCost / layStake,
+    layWorstPrice,
+  };
+}
+
+/**
+ * Total lay stake available across ladder levels
+ */
+export function ladderSize(ladder: BetfairPrice[]): number {
+  return ladder.reduce((total, level) => total + level.size, 0);
+}
+
+/**
+ * Size an arb's position for a back stake (mutates the arb)
+ * Shrinks the stake to what the profitable lay ladder can absorb, then sets the lay VWAP,
+ * the margins at that VWAP (what the stake can actually get, not the top of book),
+ * equalised lay stake, liability and outcome P&L
+ */
+export function applyArbStake(arb: ArbOpportunity, backStake: number): ArbOpportunity {
+  arb.suggestedStake = backStake;
+
+  let fill = fillLayLadder(arb.suggestedStake, arb.bookieOdds, arb.layLadder, arb.commissionRate);
+  if (fill.backStake < arb.suggestedStake) {
+    arb.suggestedStake = roundDownGreyManStake(fill.backStake);
+    fill = fillLayLadder(arb.suggestedStake, arb.bookieOdds, arb.layLadder, arb.commissionRate);
+  }
+  arb.layVwap = fill.layVwap || arb.layOdds;
+
+  return Object.assign(
+    arb,
+    priceArb(arb.bookieOdds, arb.layVwap, arb.commissionRate),
+    calculatePosition(arb.suggestedStake, arb.bookieOdds, arb.layVwap, arb.commissionRate),
+  );
+}
+
+// Betfair price ladder: [band upper bound, tick increment]
+const BETFAIR_TICK_BANDS: Array<[number, number]> = [
+  [2, 0.01],
+  [3, 0.02],
+  [4, 0.05],
+  [6, 0.1],
+  [10, 0.2],
+  [20, 0.5],
+  [30, 1],
+  [50, 2],
+  [100, 5],
+  [1000, 10],
+];
+
+/**
+ * Round a price onto Betfair's tick ladder (1.01 - 1000)
+ * Lay limit prices round down, so a rounded order never accepts a worse price
+ */
+export function roundToTick(price: number, direction: 'up' | 'down'): number {
+  const clamped = Math.min(1000, Math.max(1.01, price));
+  let lower = 1;
+  for (const [upper, increment] of BETFAIR_TICK_BANDS) {
+    if (clamped <= upper) {
+      const steps = (clamped - lower) / increment;
+      // Tolerate float noise (2.3 / 0.01 = 229.99999...)
+      const rounded = direction === 'down' ? Math.floor(steps + 1e-9) : Math.ceil(steps - 1e-9);
+      return Math.max(1.01, Math.round((lower + rounded * increment) * 100) / 100);
+    }
+    lower = upper;
+  }
+  return 1000;
+}
+
+export interface BookieStakeSplit {
+  stakes: number[]; // Whole-dollar stake per leg, in the same order as the odds
+  payouts: number[]; // Return per leg if that outcome wins
+  totalStake: number;
+  guaranteedProfit: number; // Worst-case profit across outcomes
+}
+
+/**
+ * Implied probability of backing every outcome at the given odds
+ * Below 1 means backing them all locks in a profit
+ */
+export function impliedProbability(odds: number[]): number {
+  return odds.reduce((total, price) => total + 1 / price, 0);
+}
+
+/**
+ * Split a total stake across bookie legs so every outcome returns roughly the same
+ * Formula: stake_i = totalStake * (1 / odds_i) / impliedProbability
+ * Each leg is rounded down to a Grey Man amount, so the payouts differ by a few cents
+ */
+export function splitBookieStakes(totalStake: number, odds: number[]): BookieStakeSplit {
+  const implied = impliedProbability(odds);
+  const stakes = odds.map((price) => roundDownGreyManStake((totalStake / price) / implied));
+  const payouts = stakes.map((stake, i) => roundCents(stake * odds[i]));
+  const spent = stakes.reduce((total, stake) => total + stake, 0);
+
+  return {
+    stakes,
+    payouts,
+    totalStake: spent,
+    guaranteedProfit: roundCents(Math.min(...payouts) - spent),
+  };
+}
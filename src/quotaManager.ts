@@ -0,0 +1,250 @@
+// Quota Manager - Odds-API request budgeting and adaptive polling
+
+import { getSydneyDateKey, POLLING_INTERVALS } from './config.ts';
+import type { SportsRegistry } from './sportsConfig.ts';
+
+const TIER_WEIGHTS: Record<string, number> = { TIER_1: 3, TIER_2: 1, TIER_3: 0.5 };
+const MIN_YIELD_SAMPLES = 10; // Calls before a sport's yield counts against it
+const LOW_BUDGET_FRACTION = 0.2; // Below this share of quota left, zero-yield sports are skipped
+const DAYTIME_END_HOUR = 23; // Sydney - polling stops at 11pm
+
+/**
+ * Odds-API usage headers from one response
+ */
+export interface QuotaUsage {
+  used: number; // x-requests-used (this period)
+  remaining: number; // x-requests-remaining
+  last: number; // x-requests-last (cost of this call)
+}
+
+/**
+ * Latest known quota, persisted in KV under ['odds_api_quota']
+ */
+export interface QuotaState extends QuotaUsage {
+  periodKey: string; // Start date of the quota period, e.g. "2026-10-01"
+  updatedAt: string; // ISO Date
+}
+
+/**
+ * Per-sport spend and yield for the current quota period
+ */
+export interface SportUsage {
+  calls: number;
+  cost: number; // Requests spent
+  arbs: number; // Opportunities detected from those calls
+  lastCost: number;
+  lastPolledAt: number; // epoch ms
+}
+
+export interface PollDecision {
+  poll: boolean;
+  reason?: string;
+}
+
+/**
+ * Current Sydney calendar date and hour
+ */
+function sydneyNow(now: Date): { year: number; month: number; day: number; hour: number; minute: number } {
+  const sydney = new Date(now.toLocaleString('en-US', { timeZone: 'Australia/Sydney' }));
+  return {
+    year: sydney.getFullYear(),
+    month: sydney.getMonth(),
+    day: sydney.getDate(),
+    hour: sydney.getHours(),
+    minute: sydney.getMinutes(),
+  };
+}
+
+/**
+ * Quota period containing `now` - periods start on resetDay of each month (Sydney date)
+ * Returns the period key and the days left including today
+ */
+export function getQuotaPeriod(now: Date, resetDay: number): { periodKey: string; daysLeft: number } {
+  const { year, month, day } = sydneyNow(now);
+  const startMonth = day >= resetDay ? month : month - 1;
+  const start = Date.UTC(year, startMonth, resetDay);
+  const next = Date.UTC(year, startMonth + 1, resetDay);
+  const today = Date.UTC(year, month, day);
+
+  return {
+    periodKey: new Date(start).toISOString().slice(0, 10),
+    daysLeft: Math.max(1, Math.round((next - today) / 86400000)),
+  };
+}
+
+export class QuotaManager {
+  private kv: Deno.Kv;
+  private resetDay: number;
+  private warnThresholds: number[];
+  private sports: SportsRegistry;
+
+  constructor(kv: Deno.Kv, resetDay: number, warnThresholds: number[], sports: SportsRegistry) {
+    this.kv = kv;
+    this.resetDay = resetDay;
+    this.warnThresholds = [...warnThresholds].sort((a, b) => a - b);
+    this.sports = sports;
+  }
+
+  async getState(): Promise<QuotaState | null> {
+    const entry = await this.kv.get<QuotaState>(['odds_api_quota']);
+    return entry.value;
+  }
+
+  /**
+   * Record usage headers from an Odds-API call against a sport
+   * Returns the warning thresholds (percent used) crossed for the first time this period
+   */
+  async recordUsage(sportKey: string, usage: QuotaUsage): Promise<number[]> {
+    const now = new Date();
+    const { periodKey } = getQuotaPeriod(now, this.resetDay);
+
+    await this.kv.set(['odds_api_quota'], {
+      ...usage,
+      periodKey,
+      updatedAt: now.toISOString(),
+    } satisfies QuotaState);
+
+    const sportKeyPath = ['odds_api_sport', periodKey, sportKey];
+    const sport = (await this.kv.get<SportUsage>(sportKeyPath)).value ??
+      { calls: 0, cost: 0, arbs: 0, lastCost: 0, lastPolledAt: 0 };
+    await this.kv.set(sportKeyPath, {
+      ...sport,
+      calls: sport.calls + 1,
+      cost: sport.cost + usage.last,
+      lastCost: usage.last,
+      lastPolledAt: now.getTime(),
+    });
+
+    // Today's spend per sport (expires after the day is over)
+    const spendKey = ['odds_api_spend', getSydneyDateKey(now), sportKey];
+    const spent = (await this.kv.get<number>(spendKey)).value ?? 0;
+    await this.kv.set(spendKey, spent + usage.last, { expireIn: 2 * 86400000 });
+
+    return await this.checkThresholds(periodKey, usage);
+  }
+
+  /**
+   * Record how many opportunities a sport's latest scan produced (its yield)
+   */
+  async recordYield(sportKey: string, arbs: number): Promise<void> {
+    if (arbs === 0) return;
+    const { periodKey } = getQuotaPeriod(new Date(), this.resetDay);
+    const key = ['odds_api_sport', periodKey, sportKey];
+    const sport = (await this.kv.get<SportUsage>(key)).value;
+    if (sport) {
+      await this.kv.set(key, { ...sport, arbs: sport.arbs + arbs });
+    }
+  }
+
+  /**
+   * Decide whether a sport should be polled now
+   * The remaining quota is spread evenly over the days left in the period, then split across
+   * sports by tier weight and yield (arbs per request). Each sport's polling interval stretches
+   * so its share lasts until the end of the Sydney day; low-yield sports get smaller shares,
+   * and are skipped outright once the quota runs low.
+   */
+  async shouldPoll(sportKey: string): Promise<PollDecision> {
+    const now = new Date();
+    const state = await this.getState();
+    const { periodKey, daysLeft } = getQuotaPeriod(now, this.resetDay);
+
+    // No usage seen this period yet (or the quota has reset) - poll normally
+    if (!state || state.periodKey !== periodKey) {
+      return { poll: true };
+    }
+    if (state.remaining <= 0) {
+      return { poll: false, reason: 'quota exhausted for this period' };
+    }
+
+    const sports = await this.loadSportUsage(periodKey);
+    const usage = sports.get(sportKey);
+    const tier = this.sports.get(sportKey)?.tier ?? 'TIER_2';
+    const quotaTotal = state.used + state.remaining;
+
+    // Zero-yield sports are the first to go when the budget runs low
+    if (
+      state.remaining / quotaTotal < LOW_BUDGET_FRACTION &&
+      usage && usage.calls >= MIN_YIELD_SAMPLES && usage.arbs === 0
+    ) {
+      return { poll: false, reason: `low budget (${state.remaining} left) and no arbs from ${usage.calls} calls` };
+    }
+
+    const allowance = (state.remaining / daysLeft) * this.sportShare(sportKey, sports);
+    const { hour, minute } = sydneyNow(now);
+    const spentToday = (await this.kv.get<number>(['odds_api_spend', getSydneyDateKey(now), sportKey]))
+      .value ?? 0;
+    const left = allowance - spentToday;
+    if (left <= 0) {
+      return { poll: false, reason: `daily budget spent (${spentToday}/${allowance.toFixed(0)} requests)` };
+    }
+
+    if (!usage) {
+      return { poll: true };
+    }
+
+    // Stretch the interval so the remaining allowance covers the rest of today's polling window
+    const costPerCall = Math.max(1, usage.lastCost);
+    const callsLeft = left / costPerCall;
+    const windowMs = Math.max(0, ((DAYTIME_END_HOUR - hour) * 60 - minute) * 60000);
+    const baseInterval = POLLING_INTERVALS[tier];
+    const interval = Math.max(baseInterval, windowMs / Math.max(callsLeft, 1));
+    const sinceLast = now.getTime() - usage.lastPolledAt;
+
+    // Cron fires on the base cadence, so allow a little jitter before deferring
+    if (sinceLast < interval - baseInterval * 0.1) {
+      return {
+        poll: false,
+        reason: `slowed to every ${(interval / 60000).toFixed(0)} min (${callsLeft.toFixed(0)} calls left today)`,
+      };
+    }
+    return { poll: true };
+  }
+
+  private async loadSportUsage(periodKey: string): Promise<Map<string, SportUsage>> {
+    const sports = new Map<string, SportUsage>();
+    for await (const entry of this.kv.list<SportUsage>({ prefix: ['odds_api_sport', periodKey] })) {
+      sports.set(entry.key[2] as string, entry.value);
+    }
+    return sports;
+  }
+
+  /**
+   * Share of the daily budget for a sport: tier weight scaled by yield relative to the best sport
+   * Sports with too few calls to judge count as full yield
+   */
+  private sportShare(sportKey: string, sports: Map<string, SportUsage>): number {
+    const yieldOf = (usage?: SportUsage) =>
+      usage && usage.calls >= MIN_YIELD_SAMPLES && usage.cost > 0 ? usage.arbs / usage.cost : null;
+    const bestYield = Math.max(0, ...[...sports.values()].map((u) => yieldOf(u) ?? 0));
+
+    const weight = (key: string) => {
+      const tierWeight = TIER_WEIGHTS[this.sports.get(key)?.tier ?? 'TIER_2'];
+      const sportYield = yieldOf(sports.get(key));
+      const yieldScore = sportYield === null || bestYield === 0 ? 1 : sportYield / bestYield;
+      return tierWeight * (0.25 + 0.75 * yieldScore);
+    };
+
+    const total = this.sports.list()
+      .filter((sport) => sport.enabled)
+      .reduce((sum, sport) => sum + weight(sport.key), 0);
+    return total > 0 ? weight(sportKey) / total : 0;
+  }
+
+  /**
+   * Thresholds (percent used) crossed for the first time this period
+   */
+  private async checkThresholds(periodKey: string, usage: QuotaUsage): Promise<number[]> {
+    const quotaTotal = usage.used + usage.remaining;
+    if (quotaTotal <= 0) return [];
+
+    const usedPct = (usage.used / quotaTotal) * 100;
+    const warnedKey = ['odds_api_quota_warned', periodKey];
+    const warned = (await this.kv.get<number[]>(warnedKey)).value ?? [];
+    const crossed = this.warnThresholds.filter((t) => usedPct >= t && !warned.includes(t));
+
+    if (crossed.length > 0) {
+      await this.kv.set(warnedKey, [...warned, ...crossed], { expireIn: 40 * 86400000 });
+    }
+    return crossed;
+  }
+}
@@ -0,0 +1,78 @@
+// Runtime Settings - Operator overrides (Telegram commands) persisted in KV on top of loadConfig
+
+import type { Config } from './config.ts';
+import { DEFAULT_DETECTION_THRESHOLDS } from './arbDetector.ts';
+
+const SETTINGS_KEY = ['settings'];
+
+/**
+ * Overrides stored in KV - unset fields fall back to the config
+ */
+export interface SettingsOverrides {
+  paused?: boolean;
+  disabledSports?: string[]; // Sport keys from sports.json
+  greyManMinStake?: number;
+  greyManMaxStake?: number;
+  minNetMargin?: number; // e.g. 0.025 (2.5%)
+  updatedAt?: string; // ISO Date
+}
+
+/**
+ * Effective settings for a scan
+ */
+export interface RuntimeSettings {
+  paused: boolean;
+  disabledSports: string[];
+  greyManMinStake: number;
+  greyManMaxStake: number;
+  minNetMargin: number;
+}
+
+export class SettingsStore {
+  private kv: Deno.Kv;
+  private config: Config;
+
+  constructor(kv: Deno.Kv, config: Config) {
+    this.kv = kv;
+    this.config = config;
+  }
+
+  async getOverrides(): Promise<SettingsOverrides> {
+    return (await this.kv.get<SettingsOverrides>(SETTINGS_KEY)).value ?? {};
+  }
+
+  /**
+   * KV overrides take priority over config values
+   */
+  async load(): Promise<RuntimeSettings> {
+    const overrides = await this.getOverrides();
+    return {
+      paused: overrides.paused ?? false,
+      disabledSports: overrides.disabledSports ?? [],
+      greyManMinStake: overrides.greyManMinStake ?? this.config.greyManMinStake,
+      greyManMaxStake: overrides.greyManMaxStake ?? this.config.greyManMaxStake,
+      minNetMargin: overrides.minNetMargin ?? DEFAULT_DETECTION_THRESHOLDS.minNetMargin,
+    };
+  }
+
+  /**
+   * Merge a change into the stored overrides and return the new effective settings
+   */
+  async update(patch: SettingsOverrides): Promise<RuntimeSettings> {
+    const overrides = await this.getOverrides();
+    await this.kv.set(SETTINGS_KEY, {
+      ...overrides,
+      ...patch,
+      updatedAt: new Date().toISOString(),
+    } satisfies SettingsOverrides);
+    return await this.load();
+  }
+
+  /**
+   * Drop every override - config values apply again
+   */
+  async reset(): Promise<RuntimeSettings> {
+    await this.kv.delete(SETTINGS_KEY);
+    return await this.load();
+  }
+}
@@ -0,0 +1,250 @@
+// Snapshot Recorder - Compact per-scan odds snapshots in Deno KV for later review and backtesting
+
+import type { BetfairMarketPrices, BetfairPrice, OddsApiEvent } from './types.ts';
+import type { OddsMarketKey } from './marketMapping.ts';
+
+const SNAPSHOT_VERSION = 1;
+const MAX_VALUE_BYTES = 60 * 1024; // Deno KV values are capped at 64 KiB
+const GET_MANY_LIMIT = 10; // kv.getMany accepts at most 10 keys
+
+/**
+ * A Betfair market priced during a scan, with the mapping that produced it
+ */
+export interface RecordedMarket {
+  oddsMarket: OddsMarketKey;
+  marketTypeCode: string; // e.g. "MATCH_ODDS", "OVER_UNDER_25"
+  market: BetfairMarketPrices; // Includes the market-level line, if any
+}
+
+/**
+ * One event as seen by one scan - bookmaker prices and the matched Betfair ladders
+ */
+export interface OddsSnapshot {
+  sportKey: string;
+  eventId: string;
+  recordedAt: number; // epoch ms (shared by every event in the scan)
+  event: OddsApiEvent;
+  markets: RecordedMarket[];
+}
+
+export interface SnapshotQuery {
+  sportKey?: string;
+  eventId?: string;
+  from?: Date; // Inclusive
+  to?: Date; // Exclusive
+}
+
+type CompactLadder = Array<[number, number]>; // [price, size]
+
+/**
+ * Stored form - positional tuples keep snapshots well under the KV value limit
+ */
+interface CompactSnapshot {
+  v: number;
+  t: number;
+  s: string;
+  e: [id: string, title: string, commence: string, home: string, away: string];
+  b: Array<[key: string, title: string, market: string, outcomes: Array<[string, number, number?]>]>;
+  m: Array<{
+    o: OddsMarketKey;
+    c: string;
+    id: string;
+    l?: number;
+    r?: number;
+    u: Array<[selectionId: number, name: string, handicap: number | null, back: CompactLadder, lay: CompactLadder]>;
+  }>;
+}
+
+function compactLadder(ladder: BetfairPrice[] = []): CompactLadder {
+  return ladder.map(({ price, size }) => [price, size]);
+}
+
+function expandLadder(ladder: CompactLadder): BetfairPrice[] {
+  return ladder.map(([price, size]) => ({ price, size }));
+}
+
+/**
+ * Encode a snapshot for storage
+ */
+export function compactSnapshot(snapshot: OddsSnapshot): CompactSnapshot {
+  const { event } = snapshot;
+  return {
+    v: SNAPSHOT_VERSION,
+    t: snapshot.recordedAt,
+    s: snapshot.sportKey,
+    e: [event.id, event.sport_title, event.commence_time, event.home_team, event.away_team],
+    b: event.bookmakers.flatMap((bookmaker) =>
+      bookmaker.markets.map((market): CompactSnapshot['b'][number] => [
+        bookmaker.key,
+        bookmaker.title,
+        market.key,
+        market.outcomes.map((o): [string, number, number?] =>
+          o.point === undefined ? [o.name, o.price] : [o.name, o.price, o.point]
+        ),
+      ])
+    ),
+    m: snapshot.markets.map(({ oddsMarket, marketTypeCode, market }) => ({
+      o: oddsMarket,
+      c: marketTypeCode,
+      id: market.marketId,
+      l: market.line,
+      r: market.marketBaseRate,
+      u: market.runners.map((runner) => [
+        runner.selectionId,
+        runner.runnerName,
+        runner.handicap ?? null,
+        compactLadder(runner.ex?.availableToBack),
+        compactLadder(runner.ex?.availableToLay),
+      ]),
+    })),
+  };
+}
+
+/**
+ * Decode a stored snapshot back into Odds-API / Betfair shapes
+ * Bookmaker last_update is not stored; it reads back as the scan time
+ */
+export function expandSnapshot(compact: CompactSnapshot): OddsSnapshot {
+  const [id, title, commence, home, away] = compact.e;
+  const recordedAt = new Date(compact.t).toISOString();
+
+  const bookmakers: OddsApiEvent['bookmakers'] = [];
+  for (const [key, bookieTitle, marketKey, outcomes] of compact.b) {
+    let bookmaker = bookmakers.find((bm) => bm.key === key);
+    if (!bookmaker) {
+      bookmaker = { key, title: bookieTitle, last_update: recordedAt, markets: [] };
+      bookmakers.push(bookmaker);
+    }
+    bookmaker.markets.push({
+      key: marketKey,
+      last_update: recordedAt,
+      outcomes: outcomes.map(([name, price, point]) =>
+        point === undefined ? { name, price } : { name, price, point }
+      ),
+    });
+  }
+
+  return {
+    sportKey: compact.s,
+    eventId: id,
+    recordedAt: compact.t,
+    event: {
+      id,
+      sport_key: compact.s,
+      sport_title: title,
+      commence_time: commence,
+      home_team: home,
+      away_team: away,
+      bookmakers,
+    },
+    markets: compact.m.map((m) => ({
+      oddsMarket: m.o,
+      marketTypeCode: m.c,
+      market: {
+        marketId: m.id,
+        marketBaseRate: m.r,
+        line: m.l,
+        runners: m.u.map(([selectionId, runnerName, handicap, back, lay]) => ({
+          selectionId,
+          runnerName,
+          ...(handicap === null ? {} : { handicap }),
+          ex: { availableToBack: expandLadder(back), availableToLay: expandLadder(lay) },
+        })),
+      },
+    })),
+  };
+}
+
+/**
+ * Opt-in recorder (RECORD_SNAPSHOTS=true)
+ * Keys: ['snapshot', sportKey, recordedAt, eventId] -> CompactSnapshot
+ *       ['snapshot_event', eventId, recordedAt] -> sportKey (index for per-event reads)
+ * Both expire after the retention period.
+ */
+export class SnapshotRecorder {
+  private kv: Deno.Kv;
+  private retentionMs: number;
+
+  constructor(kv: Deno.Kv, retentionDays: number) {
+    this.kv = kv;
+    this.retentionMs = retentionDays * 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * Record one event from a scan - failures are logged, never thrown into the scan
+   */
+  async record(
+    sportKey: string,
+    recordedAt: number,
+    event: OddsApiEvent,
+    markets: RecordedMarket[],
+  ): Promise<void> {
+    try {
+      const compact = compactSnapshot({ sportKey, eventId: event.id, recordedAt, event, markets });
+      const size = new TextEncoder().encode(JSON.stringify(compact)).length;
+      if (size > MAX_VALUE_BYTES) {
+        console.log(`Snapshot for ${event.id} skipped - ${(size / 1024).toFixed(0)} KiB exceeds KV limit`);
+        return;
+      }
+
+      await this.kv.atomic()
+        .set(['snapshot', sportKey, recordedAt, event.id], compact, { expireIn: this.retentionMs })
+        .set(['snapshot_event', event.id, recordedAt], sportKey, { expireIn: this.retentionMs })
+        .commit();
+    } catch (error) {
+      console.error(`Failed to record snapshot for ${event.id}:`, error);
+    }
+  }
+
+  /**
+   * Read snapshots in time order, filtered by sport, event and/or date range
+   */
+  async list(query: SnapshotQuery = {}): Promise<OddsSnapshot[]> {
+    const from = query.from?.getTime() ?? 0;
+    const to = query.to?.getTime() ?? Number.MAX_SAFE_INTEGER;
+
+    if (query.eventId) {
+      return await this.listEvent(query.eventId, from, to, query.sportKey);
+    }
+
+    const selector: Deno.KvListSelector = query.sportKey
+      ? { start: ['snapshot', query.sportKey, from], end: ['snapshot', query.sportKey, to] }
+      : { prefix: ['snapshot'] };
+
+    const snapshots: OddsSnapshot[] = [];
+    for await (const entry of this.kv.list<CompactSnapshot>(selector)) {
+      if (entry.value.t >= from && entry.value.t < to) {
+        snapshots.push(expandSnapshot(entry.value));
+      }
+    }
+    // Per-sport ranges come back in time order already; all-sport listings are grouped by sport
+    return snapshots.sort((a, b) => a.recordedAt - b.recordedAt);
+  }
+
+  private async listEvent(
+    eventId: string,
+    from: number,
+    to: number,
+    sportKey?: string,
+  ): Promise<OddsSnapshot[]> {
+    const keys: Deno.KvKey[] = [];
+    for await (
+      const entry of this.kv.list<string>({
+        start: ['snapshot_event', eventId, from],
+        end: ['snapshot_event', eventId, to],
+      })
+    ) {
+      if (sportKey && entry.value !== sportKey) continue;
+      keys.push(['snapshot', entry.value, entry.key[2], eventId]);
+    }
+
+    const snapshots: OddsSnapshot[] = [];
+    for (let i = 0; i < keys.length; i += GET_MANY_LIMIT) {
+      const entries = await this.kv.getMany<CompactSnapshot[]>(keys.slice(i, i + GET_MANY_LIMIT));
+      for (const entry of entries) {
+        if (entry.value) snapshots.push(expandSnapshot(entry.value));
+      }
+    }
+    return snapshots;
+  }
+}
@@ -0,0 +1,248 @@
+// Sports Config - Every sport defined once in sports.json, validated on load and reloaded when the file changes
+
+import type { OddsMarketKey } from './marketMapping.ts';
+
+export type SportTier = 'TIER_1' | 'TIER_2' | 'TIER_3';
+
+export const SPORT_TIER_NAMES: SportTier[] = ['TIER_1', 'TIER_2', 'TIER_3'];
+const ODDS_MARKETS: OddsMarketKey[] = ['h2h', 'spreads', 'totals'];
+const SPORT_FIELDS = ['label', 'key', 'betfair', 'tier', 'activeHours', 'minNetMargin', 'markets', 'enabled'];
+
+export const DEFAULT_SPORTS_CONFIG_PATH = new URL('../sports.json', import.meta.url);
+
+/**
+ * Scanning window in AEDT hours (UTC+11) - end is exclusive, start > end wraps past midnight
+ */
+export interface ActiveWindow {
+  start: number;
+  end: number;
+}
+
+/**
+ * One sport, as validated from the file and merged with the env defaults
+ */
+export interface SportConfig {
+  label: string; // e.g. "NBA" - /sports takes this or the key
+  key: string; // Odds-API sport key, e.g. "basketball_nba"
+  betfairEventTypeId: string; // e.g. "7522"
+  betfairCompetition: string | null; // Matched against listCompetitions; null = whole event type
+  tier: SportTier;
+  activeHours: ActiveWindow[]; // Empty = always active
+  minNetMargin: number | null; // null = the /minmargin setting
+  markets: OddsMarketKey[]; // Odds-API markets to scan (ODDS_API_MARKETS unless set per sport)
+  enabled: boolean; // false keeps a sport in the file without scanning it
+}
+
+/**
+ * The sports file is missing, isn't JSON, or doesn't match the schema
+ */
+export class SportsConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SportsConfigError';
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isHour(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 23;
+}
+
+function parseSport(raw: unknown, at: string, defaultMarkets: OddsMarketKey[]): SportConfig {
+  if (!isObject(raw)) {
+    throw new SportsConfigError(`${at} must be an object`);
+  }
+  const unknownFields = Object.keys(raw).filter((field) => !SPORT_FIELDS.includes(field));
+  if (unknownFields.length > 0) {
+    throw new SportsConfigError(`${at} has unknown fields: ${unknownFields.join(', ')}`);
+  }
+
+  const { label, key, betfair, tier, activeHours = [], minNetMargin = null, markets, enabled = true } = raw;
+  if (typeof label !== 'string' || label.trim() === '') {
+    throw new SportsConfigError(`${at}.label must be a non-empty string`);
+  }
+  at = `${at} (${label})`;
+  if (typeof key !== 'string' || !/^[a-z0-9_]+$/.test(key)) {
+    throw new SportsConfigError(`${at}.key must be an Odds-API sport key, e.g. basketball_nba`);
+  }
+  if (!isObject(betfair) || typeof betfair.eventTypeId !== 'string' || !/^\d+$/.test(betfair.eventTypeId)) {
+    throw new SportsConfigError(`${at}.betfair.eventTypeId must be a Betfair event type id string, e.g. "7522"`);
+  }
+  const competition = betfair.competition ?? null;
+  if (competition !== null && (typeof competition !== 'string' || competition.trim() === '')) {
+    throw new SportsConfigError(`${at}.betfair.competition must be a competition name or null`);
+  }
+  if (!SPORT_TIER_NAMES.includes(tier as SportTier)) {
+    throw new SportsConfigError(`${at}.tier must be one of: ${SPORT_TIER_NAMES.join(', ')}`);
+  }
+  if (
+    !Array.isArray(activeHours) ||
+    activeHours.some((w) => !isObject(w) || !isHour(w.start) || !isHour(w.end) || w.start === w.end)
+  ) {
+    throw new SportsConfigError(`${at}.activeHours must be a list of { "start": 0-23, "end": 0-23 } windows`);
+  }
+  if (minNetMargin !== null && !(typeof minNetMargin === 'number' && minNetMargin > 0 && minNetMargin < 1)) {
+    throw new SportsConfigError(`${at}.minNetMargin must be a fraction between 0 and 1 (e.g. 0.025)`);
+  }
+  if (
+    markets !== undefined &&
+    (!Array.isArray(markets) || markets.length === 0 || markets.some((m) => !ODDS_MARKETS.includes(m)))
+  ) {
+    throw new SportsConfigError(`${at}.markets must be a list of: ${ODDS_MARKETS.join(', ')}`);
+  }
+  if (typeof enabled !== 'boolean') {
+    throw new SportsConfigError(`${at}.enabled must be true or false`);
+  }
+
+  return {
+    label,
+    key,
+    betfairEventTypeId: betfair.eventTypeId,
+    betfairCompetition: competition,
+    tier: tier as SportTier,
+    activeHours: activeHours.map(({ start, end }) => ({ start, end })),
+    minNetMargin,
+    markets: (markets as OddsMarketKey[] | undefined) ?? defaultMarkets,
+    enabled,
+  };
+}
+
+/**
+ * Validate the sports file - throws SportsConfigError naming the first bad field
+ * defaultMarkets (ODDS_API_MARKETS) applies to sports without their own markets
+ */
+export function parseSportsConfig(text: string, defaultMarkets: OddsMarketKey[], source = 'sports.json'): SportConfig[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new SportsConfigError(`${source} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!isObject(raw) || !Array.isArray(raw.sports) || raw.sports.length === 0) {
+    throw new SportsConfigError(`${source} must be an object with a non-empty "sports" list`);
+  }
+
+  const sports = raw.sports.map((sport, i) => parseSport(sport, `${source}: sports[${i}]`, defaultMarkets));
+  for (const field of ['key', 'label'] as const) {
+    const seen = new Set<string>();
+    for (const sport of sports) {
+      const name = sport[field].toLowerCase();
+      if (seen.has(name)) {
+        throw new SportsConfigError(`${source}: ${field} "${sport[field]}" is used by more than one sport`);
+      }
+      seen.add(name);
+    }
+  }
+  return sports;
+}
+
+/**
+ * Read and validate the sports file (sync - loadConfig runs before anything else)
+ */
+export function loadSportsConfig(path: string | URL, defaultMarkets: OddsMarketKey[]): SportConfig[] {
+  let text: string;
+  try {
+    text = Deno.readTextFileSync(path);
+  } catch (error) {
+    throw new SportsConfigError(`Cannot read sports config ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+  return parseSportsConfig(text, defaultMarkets, String(path));
+}
+
+/**
+ * Whether the current AEDT hour is inside any of the windows (no windows = always)
+ */
+export function isWithinActiveHours(windows: ActiveWindow[], now = new Date()): boolean {
+  if (windows.length === 0) return true;
+
+  const aedtOffset = 11 * 60; // AEDT is UTC+11
+  const aedtTime = new Date(now.getTime() + aedtOffset * 60 * 1000);
+  const currentHour = aedtTime.getUTCHours();
+
+  return windows.some(({ start, end }) =>
+    // Handle wrap-around (e.g., 22-8 means 22:00 to 08:00 next day)
+    start > end ? currentHour >= start || currentHour < end : currentHour >= start && currentHour < end
+  );
+}
+
+/**
+ * The current sports - starts from loadConfig's copy, then re-reads the file whenever it changes
+ * A bad edit is rejected and the previous sports stay in use
+ */
+export class SportsRegistry {
+  private path: string | URL;
+  private defaultMarkets: OddsMarketKey[];
+  private sports: SportConfig[];
+  private loadedMtime: number | null;
+
+  constructor(path: string | URL, sports: SportConfig[], defaultMarkets: OddsMarketKey[]) {
+    this.path = path;
+    this.sports = sports;
+    this.defaultMarkets = defaultMarkets;
+    try {
+      this.loadedMtime = Deno.statSync(path).mtime?.getTime() ?? null;
+    } catch {
+      this.loadedMtime = null;
+    }
+  }
+
+  list(): SportConfig[] {
+    return this.sports;
+  }
+
+  get(key: string): SportConfig | undefined {
+    return this.sports.find((sport) => sport.key === key);
+  }
+
+  /**
+   * Resolve "NBA" / "nba" / "basketball_nba"
+   */
+  find(name: string): SportConfig | undefined {
+    const lower = name.toLowerCase();
+    return this.sports.find((sport) => sport.key === lower || sport.label.toLowerCase() === lower);
+  }
+
+  /**
+   * Enabled sports in a tier
+   */
+  forTier(tier: SportTier): SportConfig[] {
+    return this.sports.filter((sport) => sport.enabled && sport.tier === tier);
+  }
+
+  /**
+   * Re-read the file if it changed since the last load
+   * Returns true if new sports were loaded; throws SportsConfigError (once per change) if the edit is invalid
+   */
+  async reloadIfChanged(): Promise<boolean> {
+    let mtime: number | null;
+    try {
+      mtime = (await Deno.stat(this.path)).mtime?.getTime() ?? null;
+    } catch (error) {
+      if (this.loadedMtime === null) return false; // Already reported
+      this.loadedMtime = null;
+      throw new SportsConfigError(
+        `Cannot read sports config ${this.path}: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+    if (mtime !== null && mtime === this.loadedMtime) {
+      return false;
+    }
+    this.loadedMtime = mtime;
+
+    const sports = parseSportsConfig(await Deno.readTextFile(this.path), this.defaultMarkets, String(this.path));
+    const before = new Set(this.sports.map((sport) => sport.key));
+    const added = sports.filter((sport) => !before.has(sport.key)).map((sport) => sport.key);
+    const removed = [...before].filter((key) => !sports.some((sport) => sport.key === key));
+    this.sports = sports;
+
+    console.log(
+      `🔁 Sports config reloaded: ${sports.filter((s) => s.enabled).length}/${sports.length} sports enabled` +
+        (added.length > 0 ? `, added ${added.join(', ')}` : '') +
+        (removed.length > 0 ? `, removed ${removed.join(', ')}` : ''),
+    );
+    return true;
+  }
+}
@@ -0,0 +1,88 @@
+// Team alias tables - per sport, canonical name -> known alternative spellings
+// Names on both sides are normalised before lookup (see normalizeTeamName)
+// Keyed by Odds-API sport key (see sports.json)
+
+export const TEAM_ALIASES: Record<string, Record<string, string[]>> = {
+  'basketball_nba': {
+    'Los Angeles Lakers': ['LA Lakers', 'L.A. Lakers'],
+    'Los Angeles Clippers': ['LA Clippers', 'L.A. Clippers'],
+    'Golden State Warriors': ['GS Warriors', 'Golden State'],
+    'New York Knicks': ['NY Knicks'],
+    'Brooklyn Nets': ['BKN Nets'],
+    'Oklahoma City Thunder': ['OKC Thunder', 'Oklahoma City'],
+    'Philadelphia 76ers': ['Philadelphia Sixers', 'Philly 76ers'],
+    'Portland Trail Blazers': ['Portland Blazers', 'Portland Trailblazers'],
+    'New Orleans Pelicans': ['NO Pelicans', 'New Orleans'],
+    'San Antonio Spurs': ['SA Spurs', 'San Antonio'],
+  },
+  'aussierules_afl': {
+    'Adelaide Crows': ['Adelaide'],
+    'Brisbane Lions': ['Brisbane'],
+    'Carlton Blues': ['Carlton'],
+    'Collingwood Magpies': ['Collingwood'],
+    'Essendon Bombers': ['Essendon'],
+    'Fremantle Dockers': ['Fremantle'],
+    'Geelong Cats': ['Geelong'],
+    'Gold Coast Suns': ['Gold Coast'],
+    'Greater Western Sydney Giants': ['GWS Giants', 'GWS', 'Greater Western Sydney'],
+    'Hawthorn Hawks': ['Hawthorn'],
+    'Melbourne Demons': ['Melbourne'],
+    'North Melbourne Kangaroos': ['North Melbourne', 'Kangaroos'],
+    'Port Adelaide Power': ['Port Adelaide'],
+    'Richmond Tigers': ['Richmond'],
+    'St Kilda Saints': ['St Kilda'],
+    'Sydney Swans': ['Sydney'],
+    'West Coast Eagles': ['West Coast'],
+    'Western Bulldogs': ['Bulldogs', 'Footscray'],
+  },
+  'rugbyleague_nrl': {
+    'Brisbane Broncos': ['Brisbane'],
+    'Canberra Raiders': ['Canberra'],
+    'Canterbury Bulldogs': ['Canterbury-Bankstown Bulldogs', 'Canterbury', 'Bulldogs'],
+    'Cronulla Sutherland Sharks': ['Cronulla Sharks', 'Cronulla'],
+    'Dolphins': ['Redcliffe Dolphins', 'The Dolphins'],
+    'Gold Coast Titans': ['Gold Coast'],
+    'Manly Warringah Sea Eagles': ['Manly Sea Eagles', 'Manly'],
+    'Melbourne Storm': ['Melbourne'],
+    'New Zealand Warriors': ['NZ Warriors', 'Warriors'],
+    'Newcastle Knights': ['Newcastle'],
+    'North Queensland Cowboys': ['North Qld Cowboys', 'Nth Queensland Cowboys', 'Cowboys'],
+    'Parramatta Eels': ['Parramatta'],
+    'Penrith Panthers': ['Penrith'],
+    'South Sydney Rabbitohs': ['Souths', 'South Sydney', 'Rabbitohs'],
+    'St George Illawarra Dragons': ['St George Dragons', 'St George', 'Dragons'],
+    'Sydney Roosters': ['Roosters', 'Eastern Suburbs'],
+    'Wests Tigers': ['West Tigers'],
+  },
+  'soccer_epl': {
+    'Manchester United': ['Man Utd', 'Man United'],
+    'Manchester City': ['Man City'],
+    'Tottenham Hotspur': ['Tottenham', 'Spurs'],
+    'Wolverhampton Wanderers': ['Wolves', 'Wolverhampton'],
+    'Brighton and Hove Albion': ['Brighton', 'Brighton & Hove Albion'],
+    'Newcastle United': ['Newcastle', 'Newcastle Utd'],
+    'Nottingham Forest': ["Nott'm Forest", 'Nottm Forest', 'Notts Forest'],
+    'West Ham United': ['West Ham'],
+    'Sheffield United': ['Sheff Utd', 'Sheffield Utd'],
+    'Leicester City': ['Leicester'],
+    'Ipswich Town': ['Ipswich'],
+    'Luton Town': ['Luton'],
+    'Leeds United': ['Leeds'],
+    'AFC Bournemouth': ['Bournemouth'],
+  },
+  'soccer_uefa_champs_league': {
+    'Paris Saint Germain': ['PSG', 'Paris St Germain', 'Paris SG'],
+    'Bayern Munich': ['Bayern Munchen', 'FC Bayern Munchen', 'Bayern'],
+    'Inter Milan': ['Inter', 'Internazionale'],
+    'AC Milan': ['Milan'],
+    'Atletico Madrid': ['Atl Madrid', 'Atletico de Madrid'],
+    'Borussia Dortmund': ['Dortmund', 'BVB'],
+    'Bayer Leverkusen': ['Leverkusen'],
+    'RB Leipzig': ['Leipzig'],
+    'Manchester United': ['Man Utd', 'Man United'],
+    'Manchester City': ['Man City'],
+    'Sporting Lisbon': ['Sporting CP', 'Sporting'],
+    'PSV Eindhoven': ['PSV'],
+    'Red Star Belgrade': ['Crvena Zvezda'],
+  },
+};
@@ -0,0 +1,279 @@
+// Telegram Bot - getUpdates long-poll loop for operator commands and alert buttons
+
+const POLL_TIMEOUT_SECONDS = 25; // Telegram holds getUpdates open this long when idle
+const RETRY_DELAY_MS = 5000;
+const OFFSET_KEY = ['telegram_update_offset'];
+
+export interface InlineKeyboardButton {
+  text: string;
+  url?: string;
+  callback_data?: string; // Max 64 bytes
+}
+
+export interface InlineKeyboardMarkup {
+  inline_keyboard: InlineKeyboardButton[][];
+}
+
+export interface TelegramMessage {
+  message_id: number;
+  chat: { id: number };
+  from?: { id: number; username?: string };
+  text?: string;
+  reply_to_message?: TelegramMessage;
+  reply_markup?: InlineKeyboardMarkup;
+}
+
+export interface TelegramCallbackQuery {
+  id: string;
+  data?: string;
+  message?: TelegramMessage; // The message the button was on
+}
+
+export interface TelegramUpdate {
+  update_id: number;
+  message?: TelegramMessage;
+  callback_query?: TelegramCallbackQuery;
+}
+
+/**
+ * Handles one command - returns the reply (HTML)
+ */
+export type CommandHandler = (args: string[]) => Promise<string>;
+
+/**
+ * Handles a button tap - args are the callback_data parts after the prefix
+ * Returns the toast shown to the user
+ */
+export type CallbackHandler = (args: string[], query: TelegramCallbackQuery) => Promise<string>;
+
+/**
+ * Handles a text reply to one of the bot's messages - returns the reply (HTML), or null if not ours
+ */
+export type ReplyHandler = (message: TelegramMessage, repliedTo: TelegramMessage) => Promise<string | null>;
+
+interface RegisteredCommand {
+  description: string;
+  handler: CommandHandler;
+}
+
+/**
+ * Polls getUpdates and dispatches /commands, button taps and replies from the configured chat only
+ * The update offset is kept in KV so a restart doesn't replay old commands.
+ */
+export class TelegramBot {
+  private kv: Deno.Kv;
+  private botToken: string;
+  private chatId: string;
+  private commands = new Map<string, RegisteredCommand>();
+  private callbacks = new Map<string, CallbackHandler>();
+  private replyHandlers: ReplyHandler[] = [];
+  private running = false;
+  private abort: AbortController | null = null;
+
+  constructor(kv: Deno.Kv, botToken: string, chatId: string) {
+    this.kv = kv;
+    this.botToken = botToken;
+    this.chatId = chatId;
+  }
+
+  /**
+   * Register a command, e.g. onCommand('status', 'Bot status', handler) for /status
+   */
+  onCommand(name: string, description: string, handler: CommandHandler): void {
+    this.commands.set(name, { description, handler });
+  }
+
+  /**
+   * Register a button handler for callback_data "<prefix>:<args...>"
+   */
+  onCallback(prefix: string, handler: CallbackHandler): void {
+    this.callbacks.set(prefix, handler);
+  }
+
+  /**
+   * Register a handler for text replies to the bot's own messages (e.g. ForceReply prompts)
+   */
+  onReply(handler: ReplyHandler): void {
+    this.replyHandlers.push(handler);
+  }
+
+  /**
+   * Start the update loop (runs until stop())
+   */
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    // Command menu in the Telegram client - cosmetic, so failures are only logged
+    await this.call('setMyCommands', {
+      commands: [...this.commands].map(([command, { description }]) => ({ command, description })),
+    }).catch((error) => console.error('Failed to set Telegram commands:', error));
+
+    console.log('🤖 Telegram command loop started');
+    this.poll();
+  }
+
+  stop(): void {
+    this.running = false;
+    this.abort?.abort();
+  }
+
+  async sendMessage(text: string, extra: Record<string, unknown> = {}): Promise<TelegramMessage> {
+    return await this.call<TelegramMessage>('sendMessage', {
+      chat_id: this.chatId,
+      text,
+      parse_mode: 'HTML',
+      ...extra,
+    });
+  }
+
+  async editMessageReplyMarkup(messageId: number, replyMarkup: InlineKeyboardMarkup): Promise<void> {
+    await this.call('editMessageReplyMarkup', {
+      chat_id: this.chatId,
+      message_id: messageId,
+      reply_markup: replyMarkup,
+    });
+  }
+
+  /**
+   * Replace a message's text - pass the keyboard too, or Telegram drops it
+   */
+  async editMessageText(messageId: number, text: string, replyMarkup?: InlineKeyboardMarkup): Promise<void> {
+    await this.call('editMessageText', {
+      chat_id: this.chatId,
+      message_id: messageId,
+      text,
+      parse_mode: 'HTML',
+      ...(replyMarkup ? { reply_markup: replyMarkup } : {}),
+    });
+  }
+
+  private async poll(): Promise<void> {
+    while (this.running) {
+      try {
+        const offset = (await this.kv.get<number>(OFFSET_KEY)).value ?? 0;
+        this.abort = new AbortController();
+        const updates = await this.call<TelegramUpdate[]>('getUpdates', {
+          offset,
+          timeout: POLL_TIMEOUT_SECONDS,
+          allowed_updates: ['message', 'callback_query'],
+        }, this.abort.signal);
+
+        for (const update of updates) {
+          // Acknowledge first - a command that throws must not be retried forever
+          await this.kv.set(OFFSET_KEY, update.update_id + 1);
+          await this.handleUpdate(update);
+        }
+      } catch (error) {
+        if (!this.running) return;
+        console.error('Telegram getUpdates failed:', error instanceof Error ? error.message : error);
+        await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS));
+      }
+    }
+  }
+
+  private async handleUpdate(update: TelegramUpdate): Promise<void> {
+    if (update.callback_query) {
+      await this.handleCallback(update.callback_query);
+      return;
+    }
+
+    const message = update.message;
+    if (!message?.text) return;
+
+    if (String(message.chat.id) !== this.chatId) {
+      console.log(`Ignoring Telegram message from unknown chat ${message.chat.id}`);
+      return;
+    }
+
+    if (!message.text.startsWith('/')) {
+      if (message.reply_to_message) await this.handleReply(message, message.reply_to_message);
+      return;
+    }
+
+    // "/stake@ArbSeekerBot 200 300" -> stake, ['200', '300']
+    const [head, ...args] = message.text.trim().split(/\s+/);
+    const name = head.slice(1).split('@')[0].toLowerCase();
+    const command = this.commands.get(name);
+
+    let reply: string;
+    if (!command) {
+      reply = this.helpText();
+    } else {
+      try {
+        reply = await command.handler(args);
+      } catch (error) {
+        reply = `❌ /${name} failed: ${escapeHtml(error instanceof Error ? error.message : String(error))}`;
+      }
+    }
+
+    console.log(`🤖 /${name} from Telegram`);
+    await this.sendMessage(reply).catch((error) => console.error('Failed to reply on Telegram:', error));
+  }
+
+  private async handleCallback(query: TelegramCallbackQuery): Promise<void> {
+    let toast = '';
+    if (query.message && String(query.message.chat.id) === this.chatId && query.data) {
+      const [prefix, ...args] = query.data.split(':');
+      const handler = this.callbacks.get(prefix);
+      try {
+        toast = handler ? await handler(args, query) : 'Unknown button';
+      } catch (error) {
+        console.error(`Telegram button ${query.data} failed:`, error);
+        toast = '❌ Failed - try again';
+      }
+    } else {
+      console.log('Ignoring Telegram button from unknown chat');
+    }
+
+    // Always answer, or the client shows a spinner on the button
+    await this.call('answerCallbackQuery', { callback_query_id: query.id, text: toast })
+      .catch((error) => console.error('Failed to answer Telegram button:', error));
+  }
+
+  private async handleReply(message: TelegramMessage, repliedTo: TelegramMessage): Promise<void> {
+    for (const handler of this.replyHandlers) {
+      let reply: string | null;
+      try {
+        reply = await handler(message, repliedTo);
+      } catch (error) {
+        reply = `❌ ${escapeHtml(error instanceof Error ? error.message : String(error))}`;
+      }
+      if (reply !== null) {
+        await this.sendMessage(reply).catch((error) => console.error('Failed to reply on Telegram:', error));
+        return;
+      }
+    }
+  }
+
+  private helpText(): string {
+    const lines = [...this.commands].map(([name, { description }]) => `/${name} - ${description}`);
+    return `<b>Commands</b>\n${lines.join('\n')}`;
+  }
+
+  private async call<T = unknown>(
+    method: string,
+    params: Record<string, unknown>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    const res = await fetch(`https://api.telegram.org/bot${this.botToken}/${method}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(params),
+      signal,
+    });
+    const data = await res.json() as { ok: boolean; result: T; description?: string };
+    if (!data.ok) {
+      // 409 on getUpdates: a webhook is set or another instance is polling
+      throw new Error(`Telegram ${method} ${res.status}: ${data.description ?? 'unknown error'}`);
+    }
+    return data.result;
+  }
+}
+
+/**
+ * Escape text for Telegram HTML messages
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -4,7 +4,11 @@ export interface ArbOpportunity {
   id: string; // Unique Hash (EventID + MarketType)
   event: string; // e.g. "Lakers vs Celtics"
   sport: string; // e.g. "Basketball"
+  sportKey: string; // Odds-API sport key, e.g. "basketball_nba"
   startTime: string; // ISO Date
+  market: string; // Odds-API market: "h2h", "spreads" or "totals"
+  selection: string; // Outcome backed, e.g. "Lakers", "Draw", "Lakers -5.5" or "Over 2.5"
+  point?: number; // Line for spreads/totals (identical on both legs)
 
   // The "Back" Side (Bookie)
   bookie: string; // e.g. "Sportsbet"
@@ -15,11 +19,52 @@ export interface ArbOpportunity {
   // The "Lay" Side (Betfair)
   betfairMarketId: string; // Crucial for automation (e.g., "1.2345678")
   betfairSelectionId: number; // The specific runner ID
-  layOdds: number; // e.g. 2.30
-  layLiquidity: number; // Available $ to Lay
+  betfairHandicap?: number; // Runner handicap (Asian handicap / line markets)
+  betfairRunnerName: string; // Runner the selection resolved to
+  matchConfidence: number; // Entity resolution confidence (0-1)
+  layOdds: number; // e.g. 2.30 (best available lay price)
+  layLiquidity: number; // Available $ to Lay across the fetched ladder
+  layLadder: BetfairPrice[]; // Lay ladder levels that clear the minimum net margin
+  layFillable: number; // $ lay stake fillable across layLadder
+  layVwap: number; // Volume-weighted lay price for layStake
+  layStake: number; // Equalised lay stake for suggestedStake
+  layLiability: number; // Betfair exposure if the selection wins
+
+  // Outcome P&L (after commission)
+  profitIfBackWins: number; // Net $ if the bookie bet wins
+  profitIfBackLoses: number; // Net $ if the bookie bet loses
+
+  // Math
+  grossMargin: number; // e.g. 0.04 (4%) before commission
+  netMargin: number; // e.g. 0.017 (1.7%) locked in after commission
+  commissionRate: number; // Betfair commission applied, e.g. 0.05 (5%)
+}
+
+// Bookie-vs-bookie arb: back every outcome at different bookies, no exchange leg
+export interface BookieArbLeg {
+  selection: string; // e.g. "Lakers", "Draw" or "Over 2.5"
+  bookie: string; // e.g. "Sportsbet"
+  bookieKey: string;
+  bookieUrl: string;
+  odds: number;
+  stake: number; // Calculated via splitBookieStakes
+  payout: number; // Return if this outcome wins
+}
+
+export interface BookieArbOpportunity {
+  id: string; // Unique Hash (EventID + "bookies" + Market)
+  event: string;
+  sport: string;
+  startTime: string; // ISO Date
+  market: string; // Odds-API market: "h2h", "spreads" or "totals"
+  point?: number; // Line for totals (spreads carry it per selection)
+  legs: BookieArbLeg[]; // One per outcome (two-way or three-way)
 
   // Math
-  profitMargin: number; // e.g. 0.04 (4%)
+  impliedProbability: number; // Sum of 1/odds - below 1 is an arb
+  profitMargin: number; // 1 / impliedProbability - 1
+  totalStake: number; // Sum of leg stakes
+  guaranteedProfit: number; // Worst-case $ profit across outcomes
 }
 
 // The-Odds-API Response Types
@@ -104,6 +149,24 @@ export interface BetfairRunner {
   };
 }
 
+/**
+ * A resolved Betfair market with runner names and ladder prices (see BetfairService.findMarket)
+ */
+export interface BetfairMarketPrices {
+  marketId: string;
+  marketBaseRate?: number;
+  line?: number; // Market-level line (e.g. 2.5 for OVER_UNDER_25)
+  runners: Array<{
+    selectionId: number;
+    runnerName: string;
+    handicap?: number;
+    ex?: {
+      availableToBack: BetfairPrice[];
+      availableToLay: BetfairPrice[];
+    };
+  }>;
+}
+
 export interface BetfairPrice {
   price: number;
   size: number;
@@ -121,7 +184,9 @@ export interface BetfairInstruction {
   limitOrder: {
     size: number;
     price: number;
-    persistenceType: 'LAPSE' | 'PERSIST' | 'MARKET_ON_CLOSE';
+    persistenceType?: 'LAPSE' | 'PERSIST' | 'MARKET_ON_CLOSE'; // Not allowed with FILL_OR_KILL
+    timeInForce?: 'FILL_OR_KILL'; // Match immediately (up to size) and cancel the rest
+    minFillSize?: number; // With FILL_OR_KILL: cancel entirely unless this much matches
   };
   orderType: 'LIMIT';
   side: 'BACK' | 'LAY';
@@ -154,9 +219,88 @@ export interface BetfairAccountFunds {
   wallet: string;
 }
 
+// listClearedOrders - one settled (or voided) bet
+export interface BetfairClearedOrder {
+  betId: string;
+  marketId: string;
+  selectionId: number;
+  handicap?: number;
+  side: 'BACK' | 'LAY';
+  betOutcome?: 'WON' | 'LOST' | 'PLACE';
+  priceMatched?: number;
+  sizeSettled?: number;
+  profit?: number; // Before commission (commission is only reported per market)
+  settledDate?: string;
+}
+
+export interface BetfairClearedOrderReport {
+  clearedOrders: BetfairClearedOrder[];
+  moreAvailable: boolean;
+}
+
+// Betfair Exchange Stream API (ESA) Types
+// Messages are CRLF-delimited JSON over a TLS socket (stream-api.betfair.com:443)
+export interface StreamConnectionMessage {
+  op: 'connection';
+  connectionId: string;
+}
+
+export interface StreamStatusMessage {
+  op: 'status';
+  id?: number;
+  statusCode: 'SUCCESS' | 'FAILURE';
+  errorCode?: string; // e.g. "NO_SESSION", "INVALID_SESSION_INFORMATION", "TIMEOUT"
+  errorMessage?: string;
+  connectionClosed?: boolean;
+}
+
+export interface StreamMarketChangeMessage {
+  op: 'mcm';
+  id?: number; // Subscription id
+  ct?: 'SUB_IMAGE' | 'RESUB_DELTA' | 'HEARTBEAT'; // Absent for ordinary deltas
+  segmentType?: 'SEG_START' | 'SEG' | 'SEG_END';
+  initialClk?: string; // Resume tokens - sent back on resubscribe to get RESUB_DELTA
+  clk?: string;
+  heartbeatMs?: number;
+  pt: number; // Publish time (epoch ms)
+  mc?: StreamMarketChange[];
+}
+
+export type StreamMessage =
+  | StreamConnectionMessage
+  | StreamStatusMessage
+  | StreamMarketChangeMessage;
+
+export interface StreamMarketChange {
+  id: string; // Market id
+  img?: boolean; // true = replace the cached market, otherwise a delta
+  con?: boolean; // Conflated
+  marketDefinition?: StreamMarketDefinition;
+  rc?: StreamRunnerChange[];
+}
+
+export interface StreamMarketDefinition {
+  status: 'INACTIVE' | 'OPEN' | 'SUSPENDED' | 'CLOSED';
+  inPlay?: boolean;
+  marketBaseRate?: number; // Percent, e.g. 5.0
+  marketTime?: string;
+  runners?: Array<{
+    id: number;
+    hc?: number;
+    status: string; // "ACTIVE", "REMOVED", "WINNER", ...
+  }>;
+}
+
+export interface StreamRunnerChange {
+  id: number; // Selection id
+  hc?: number; // Handicap
+  batb?: number[][]; // Best available to back: [level, price, size], size 0 removes the level
+  batl?: number[][]; // Best available to lay: [level, price, size]
+}
+
 // Google Chat Types
 export interface GoogleChatCard {
-  cardsV2: {
+  cardsV2: Array<{
     cardId: string;
     card: {
       header?: {
@@ -167,7 +311,7 @@ export interface GoogleChatCard {
       };
       sections: GoogleChatSection[];
     };
-  };
+  }>;
 }
 
 export interface GoogleChatSection {
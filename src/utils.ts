@@ -1,25 +1,44 @@
 // Utility functions for stake calculation and arbitrage math
 
+/**
+ * Whether a stake range can produce a Grey Man stake - max above min, with at least one
+ * whole dollar amount in between that isn't divisible by 50
+ */
+export function isValidGreyManRange(min: number, max: number): boolean {
+  if (!(Number.isFinite(min) && Number.isFinite(max) && max > min)) return false;
+  for (let stake = Math.ceil(min); stake <= max; stake++) {
+    if (stake % 50 !== 0) return true;
+  }
+  return false;
+}
+
 /**
  * Calculate Grey Man stake - random amount between min and max
  * that is NOT divisible by 50 or 100 (to avoid bot detection)
+ * Throws if the range has no such amount (see isValidGreyManRange)
  */
 export function calculateGreyManStake(min: number, max: number): number {
-  let stake: number;
-  do {
-    stake = Math.floor(Math.random() * (max - min + 1)) + min;
-  } while (stake % 50 === 0 || stake % 100 === 0);
+  if (!isValidGreyManRange(min, max)) {
+    throw new Error(`Stake range $${min}-$${max} has no Grey Man stake (needs a whole amount not divisible by 50)`);
+  }
 
-  return stake;
+  const stakes: number[] = [];
+  for (let stake = Math.ceil(min); stake <= max; stake++) {
+    if (stake % 50 !== 0) stakes.push(stake);
+  }
+  return stakes[Math.floor(Math.random() * stakes.length)];
 }
 
 /**
- * Calculate profit margin percentage
- * Formula: ((backOdds - layOdds) / layOdds) * 100
+ * Round a stake down to a Grey Man amount (whole dollars, not divisible by 50)
+ * Used when a stake has to shrink to fit available liquidity
  */
-export function calculateProfitMargin(backOdds: number, layOdds: number): number {
-  if (layOdds <= 0) return 0;
-  return (backOdds - layOdds) / layOdds;
+export function roundDownGreyManStake(stake: number): number {
+  let rounded = Math.floor(stake);
+  while (rounded > 0 && rounded % 50 === 0) {
+    rounded--;
+  }
+  return Math.max(rounded, 0);
 }
 
 /**
@@ -38,12 +57,3 @@ export function calculateLayStake(liability: number, layOdds: number): number {
   if (layOdds <= 1) throw new Error('Lay odds must be greater than 1');
   return liability / (layOdds - 1);
 }
-
-/**
- * Generate unique hash for arb opportunity
- * Format: eventId_marketType
- */
-export function generateArbId(eventId: string, marketType: string): string {
-  return `${eventId}_${marketType}`;
-}
-
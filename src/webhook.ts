@@ -0,0 +1,150 @@
+// Webhook Notifications - Versioned, HMAC-signed JSON events POSTed to our own systems, retried with backoff
+
+import type { BookieArbOpportunity } from './types.ts';
+import type { ArbAlert, Notifier, SystemAlert } from './notifier.ts';
+
+export const WEBHOOK_PAYLOAD_VERSION = 1;
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 2000; // 2s, 4s, 8s, 16s (plus jitter)
+const REQUEST_TIMEOUT_MS = 10000;
+
+export type WebhookEventType = 'arb' | 'bookie_arb' | 'system';
+
+/**
+ * Body of every webhook request (version bumps on breaking changes)
+ * id is also the Idempotency-Key header and stays the same across retries
+ */
+export interface WebhookPayload {
+  version: typeof WEBHOOK_PAYLOAD_VERSION;
+  id: string;
+  type: WebhookEventType;
+  occurredAt: string; // ISO Date
+  data: WebhookArbData | BookieArbOpportunity | SystemAlert;
+}
+
+export interface WebhookArbData extends Omit<ArbAlert, 'actionRef'> {
+  ref?: string; // Alert ref (same as the Telegram buttons and the ledger)
+}
+
+/**
+ * Hex HMAC-SHA256 of "<timestamp>.<body>" - receivers recompute it with the shared secret
+ * and reject stale timestamps to stop replays
+ */
+export async function signWebhookBody(secret: string, timestamp: string, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * 5xx, 408 and 429 are worth retrying; any other 4xx won't get better
+ */
+function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 408 || status === 429;
+}
+
+/**
+ * Webhook channel for the notification hub - every event goes to every URL
+ */
+export class WebhookNotifier implements Notifier {
+  readonly channel = 'webhook';
+  private urls: string[];
+  private secret: string;
+
+  constructor(urls: string[], secret: string) {
+    this.urls = urls;
+    this.secret = secret;
+  }
+
+  async sendArbAlert(alert: ArbAlert): Promise<string | null> {
+    const { actionRef, ...data } = alert;
+    return await this.send('arb', { ...data, ref: actionRef });
+  }
+
+  async sendBookieArbAlert(arb: BookieArbOpportunity): Promise<boolean> {
+    return await this.send('bookie_arb', arb) !== null;
+  }
+
+  async sendSystemAlert(alert: SystemAlert): Promise<boolean> {
+    return await this.send('system', alert) !== null;
+  }
+
+  /**
+   * Deliver to every URL - the first attempt is awaited, retries continue in the background
+   * Returns the event id if at least one URL took the first attempt
+   */
+  private async send(type: WebhookEventType, data: WebhookPayload['data']): Promise<string | null> {
+    const payload: WebhookPayload = {
+      version: WEBHOOK_PAYLOAD_VERSION,
+      id: crypto.randomUUID(),
+      type,
+      occurredAt: new Date().toISOString(),
+      data,
+    };
+    const body = JSON.stringify(payload);
+
+    const delivered = await Promise.all(this.urls.map((url) => this.deliver(url, payload, body)));
+    return delivered.some(Boolean) ? payload.id : null;
+  }
+
+  private async deliver(url: string, payload: WebhookPayload, body: string): Promise<boolean> {
+    const outcome = await this.attempt(url, payload, body);
+    if (outcome === 'retry') {
+      this.retry(url, payload, body, 2);
+    }
+    return outcome === 'ok';
+  }
+
+  private retry(url: string, payload: WebhookPayload, body: string, attempt: number): void {
+    const delay = BASE_RETRY_DELAY_MS * 2 ** (attempt - 2) * (1 + Math.random() * 0.2);
+    setTimeout(async () => {
+      const outcome = await this.attempt(url, payload, body);
+      if (outcome === 'retry' && attempt < MAX_ATTEMPTS) {
+        this.retry(url, payload, body, attempt + 1);
+      } else if (outcome === 'retry') {
+        console.error(`❌ Webhook ${payload.type} ${payload.id} to ${new URL(url).host} dropped after ${MAX_ATTEMPTS} attempts`);
+      }
+    }, delay);
+  }
+
+  /**
+   * One POST - signed at send time so the timestamp is fresh on every retry
+   */
+  private async attempt(url: string, payload: WebhookPayload, body: string): Promise<'ok' | 'retry' | 'failed'> {
+    const host = new URL(url).host;
+    try {
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': `arb-seeker-webhook/${WEBHOOK_PAYLOAD_VERSION}`,
+          'Idempotency-Key': payload.id,
+          'X-Arb-Seeker-Event': payload.type,
+          'X-Arb-Seeker-Timestamp': timestamp,
+          'X-Arb-Seeker-Signature': `sha256=${await signWebhookBody(this.secret, timestamp, body)}`,
+        },
+        body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      await res.body?.cancel();
+
+      if (res.ok) {
+        console.log(`✅ Webhook ${payload.type} ${payload.id} delivered to ${host}`);
+        return 'ok';
+      }
+      console.error(`Webhook Error: ${host} returned ${res.status} for ${payload.type} ${payload.id}`);
+      return isRetryableStatus(res.status) ? 'retry' : 'failed';
+    } catch (error) {
+      console.error(`Failed to deliver webhook ${payload.type} ${payload.id} to ${host}:`, error);
+      return 'retry';
+    }
+  }
+}